@@ -0,0 +1,118 @@
+import { actionMessage, verifyTokenSignature, type AuthAction } from "./auth";
+import { logger } from "./logger";
+import type {
+  AuditEntry,
+  AuditQuery,
+  RequestMeta,
+  StorageBackend,
+} from "./storage";
+
+/**
+ * Append-only record of privileged actions: admin operations, and every
+ * signed link, unlink and post action together with the token that
+ * authorized it.
+ */
+export class AuditLog {
+  private log = logger.child({ component: "AuditLog" });
+
+  constructor(private storage: StorageBackend) {}
+
+  async record(
+    entry: Omit<AuditEntry, "id" | "timestamp">
+  ): Promise<AuditEntry> {
+    const stored = await this.storage.appendAuditEntry({
+      ...entry,
+      timestamp: Date.now(),
+    });
+    this.log.info("Recorded audit entry", {
+      auditId: stored.id,
+      actor: entry.actor,
+      action: entry.action,
+      target: entry.target,
+      requestId: entry.meta?.requestId,
+    });
+    return stored;
+  }
+
+  /**
+   * Records an action authorized by a NEAR signature. The action has
+   * already happened by now, so a storage failure is logged, not thrown.
+   */
+  async recordSigned(params: {
+    accountId: string;
+    publicKey: string;
+    action: AuthAction;
+    payload: Record<string, unknown>;
+    authToken: string;
+    details: Record<string, unknown>;
+    meta?: RequestMeta;
+  }): Promise<void> {
+    try {
+      await this.record({
+        actor: `near:${params.accountId}`,
+        action: params.action,
+        target: params.accountId,
+        details: params.details,
+        evidence: {
+          action: params.action,
+          payload: params.payload,
+          authToken: params.authToken,
+          publicKey: params.publicKey,
+        },
+        meta: params.meta,
+      });
+    } catch (error: any) {
+      this.log.error("Could not record signed action", {
+        action: params.action,
+        nearAccount: params.accountId,
+        requestId: params.meta?.requestId,
+        error,
+      });
+    }
+  }
+
+  async history(query: AuditQuery): Promise<AuditEntry[]> {
+    return this.storage.listAuditEntries(query);
+  }
+}
+
+/**
+ * Re-checks an entry's evidence without network access: the token's
+ * signature, that it was made by the audited account with the recorded key,
+ * and that it signs exactly the recorded action and payload.
+ */
+export function verifyAuditEvidence(entry: AuditEntry): {
+  valid: boolean;
+  reason?: string;
+} {
+  if (!entry.evidence) {
+    return { valid: false, reason: "No signed evidence recorded" };
+  }
+
+  let token;
+  try {
+    token = verifyTokenSignature(entry.evidence.authToken);
+  } catch (error: any) {
+    return { valid: false, reason: error.message };
+  }
+
+  if (!token.valid) {
+    return { valid: false, reason: "Signature does not verify" };
+  }
+  if (token.accountId !== entry.target) {
+    return { valid: false, reason: `Token was signed by ${token.accountId}` };
+  }
+  if (token.publicKey !== entry.evidence.publicKey) {
+    return { valid: false, reason: "Token was signed with a different key" };
+  }
+
+  const expected = actionMessage(
+    entry.evidence.action as AuthAction,
+    entry.evidence.payload
+  );
+  if (token.message !== expected) {
+    return { valid: false, reason: "Signed message does not match payload" };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkActionToken,
+  ReplayCache,
+  verifyActionToken,
+  type AccessKeyPermission,
+  type AccessKeyResolver,
+  type KeyPolicy,
+} from "./auth";
+import { MemoryStorage } from "./storage";
+import { createTestSigner, signAction } from "./testing/near-tokens";
+
+const RECIPIENT = "social.near";
+const MAX_AGE = 5 * 60 * 1000;
+
+// Knows exactly the keys it was given; nothing here reaches the network
+class StaticResolver implements AccessKeyResolver {
+  constructor(private keys: Map<string, AccessKeyPermission>) {}
+
+  async getAccessKey(accountId: string, publicKey: string) {
+    return this.keys.get(`${accountId}:${publicKey}`) ?? null;
+  }
+}
+
+const signer = createTestSigner("alice.testnet");
+const keyPolicy: KeyPolicy = {
+  allowFunctionCallKeys: false,
+  functionCallContracts: [],
+  resolver: new StaticResolver(
+    new Map([
+      [
+        `alice.testnet:${signer.keyPair.getPublicKey().toString()}`,
+        { type: "full-access" },
+      ],
+    ])
+  ),
+};
+
+function verifyCreatePost(authToken: string, payload = { title: "Hello" }) {
+  return verifyActionToken(authToken, {
+    action: "create-post",
+    payload,
+    recipient: RECIPIENT,
+    maxAge: MAX_AGE,
+    replayCache: new ReplayCache(new MemoryStorage()),
+    keyPolicy,
+  });
+}
+
+describe("verifyActionToken with a resolver", () => {
+  it("accepts a token signed by a key the resolver knows", async () => {
+    const token = await signAction(
+      signer,
+      "create-post",
+      { title: "Hello" },
+      { recipient: RECIPIENT }
+    );
+
+    await expect(verifyCreatePost(token)).resolves.toEqual({
+      accountId: "alice.testnet",
+      publicKey: signer.keyPair.getPublicKey().toString(),
+    });
+  });
+
+  it("rejects a key the resolver does not know", async () => {
+    const stranger = createTestSigner("alice.testnet");
+    const token = await signAction(
+      stranger,
+      "create-post",
+      { title: "Hello" },
+      { recipient: RECIPIENT }
+    );
+
+    await expect(verifyCreatePost(token)).rejects.toThrow(
+      "not an access key of alice.testnet"
+    );
+  });
+
+  it("rejects a token for another payload", async () => {
+    const token = await signAction(
+      signer,
+      "create-post",
+      { title: "Something else" },
+      { recipient: RECIPIENT }
+    );
+
+    await expect(verifyCreatePost(token)).rejects.toThrow(
+      "does not match this create-post request"
+    );
+  });
+
+  it("rejects a token for another recipient", async () => {
+    const token = await signAction(
+      signer,
+      "create-post",
+      { title: "Hello" },
+      { recipient: "evil.near" }
+    );
+
+    await expect(verifyCreatePost(token)).rejects.toThrow("Recipient mismatch");
+  });
+
+  it("rejects an expired token", async () => {
+    const token = await signAction(
+      signer,
+      "create-post",
+      { title: "Hello" },
+      { recipient: RECIPIENT, signedAt: new Date(Date.now() - 2 * MAX_AGE) }
+    );
+
+    await expect(verifyCreatePost(token)).rejects.toThrow("Nonce has expired");
+  });
+
+  it("rejects a token whose signed fields were altered", async () => {
+    const token = Buffer.from(
+      await signAction(
+        signer,
+        "create-post",
+        { title: "Hello" },
+        { recipient: RECIPIENT }
+      ),
+      "base64"
+    );
+    // The token ends with the nonce, the recipient ("social.near", 4 + 11
+    // bytes) and two empty options; flip the last, random, byte of the nonce
+    token[token.length - 18]! ^= 0xff;
+
+    await expect(verifyCreatePost(token.toString("base64"))).rejects.toThrow(
+      "signature verification failed"
+    );
+  });
+
+  it("accepts each token only once", async () => {
+    const token = await signAction(
+      signer,
+      "create-post",
+      { title: "Hello" },
+      { recipient: RECIPIENT }
+    );
+    const replayCache = new ReplayCache(new MemoryStorage());
+    const verifyOnce = () =>
+      verifyActionToken(token, {
+        action: "create-post",
+        payload: { title: "Hello" },
+        recipient: RECIPIENT,
+        maxAge: MAX_AGE,
+        replayCache,
+        keyPolicy,
+      });
+
+    await verifyOnce();
+    await expect(verifyOnce()).rejects.toThrow("already been used");
+  });
+});
+
+describe("checkActionToken", () => {
+  const options = {
+    action: "complete-link" as const,
+    payload: { nonce: "abc" },
+    recipient: RECIPIENT,
+    maxAge: MAX_AGE,
+    keyPolicy,
+  };
+
+  it("checks the signature but leaves the token to be verified later", async () => {
+    const token = await signAction(signer, "complete-link", options.payload, {
+      recipient: RECIPIENT,
+    });
+    const replayCache = new ReplayCache(new MemoryStorage());
+
+    await checkActionToken(token, options);
+    await checkActionToken(token, options);
+    await expect(
+      verifyActionToken(token, { ...options, replayCache })
+    ).resolves.toMatchObject({ accountId: "alice.testnet" });
+  });
+
+  it("rejects a key the resolver does not know", async () => {
+    const token = await signAction(
+      createTestSigner("alice.testnet"),
+      "complete-link",
+      options.payload,
+      { recipient: RECIPIENT }
+    );
+
+    await expect(checkActionToken(token, options)).rejects.toThrow(
+      "not an access key of alice.testnet"
+    );
+  });
+});
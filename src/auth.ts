@@ -0,0 +1,405 @@
+import { createHash } from "crypto";
+import { PublicKey } from "@near-js/crypto";
+import { verify, parseAuthToken } from "near-sign-verify";
+import { logger } from "./logger";
+import type { StorageBackend } from "./storage";
+
+// ============================================================================
+// SIGNED ACTION MESSAGES
+// ============================================================================
+
+export type AuthAction =
+  | "complete-link"
+  | "create-post"
+  | "reply-to-topic"
+  | "edit-post"
+  | "delete-post"
+  | "set-primary"
+  | "unlink";
+
+// JSON with sorted keys and undefined values dropped, so clients in any
+// language can reproduce the exact bytes that get hashed
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function hashActionPayload(payload: Record<string, unknown>): string {
+  return createHash("sha256").update(canonicalJson(payload)).digest("hex");
+}
+
+/**
+ * The NEP-413 message a client must sign to authorize one action:
+ * `discourse-near:<action>:<sha256 of the canonical JSON payload>`.
+ */
+export function actionMessage(
+  action: AuthAction,
+  payload: Record<string, unknown>
+): string {
+  return `discourse-near:${action}:${hashActionPayload(payload)}`;
+}
+
+// ============================================================================
+// ACCESS KEY POLICY
+// ============================================================================
+
+export type AccessKeyPermission =
+  | { type: "full-access" }
+  | { type: "function-call"; receiverId: string; methodNames: string[] };
+
+/** Looks up what an account's access key is allowed to do, on chain. */
+export interface AccessKeyResolver {
+  /** Returns null when the key is not (or no longer) on the account. */
+  getAccessKey(
+    accountId: string,
+    publicKey: string
+  ): Promise<AccessKeyPermission | null>;
+}
+
+/** Resolves access keys with `view_access_key` against a NEAR RPC node. */
+export class RpcAccessKeyResolver implements AccessKeyResolver {
+  constructor(private rpcUrl: string) {}
+
+  async getAccessKey(
+    accountId: string,
+    publicKey: string
+  ): Promise<AccessKeyPermission | null> {
+    const response = await fetch(this.rpcUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: "discourse-near",
+        method: "query",
+        params: {
+          request_type: "view_access_key",
+          finality: "final",
+          account_id: accountId,
+          public_key: publicKey,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`NEAR RPC error: ${response.status}`);
+    }
+
+    const data = (await response.json()) as {
+      result?: {
+        permission?:
+          | "FullAccess"
+          | {
+              FunctionCall: { receiver_id: string; method_names: string[] };
+            };
+        error?: string;
+      };
+      error?: { cause?: { name?: string }; message?: string };
+    };
+
+    // Newer nodes report a missing key as an error, older ones in the result
+    if (
+      data.error?.cause?.name === "UNKNOWN_ACCESS_KEY" ||
+      data.result?.error?.includes("does not exist")
+    ) {
+      return null;
+    }
+
+    if (data.error || !data.result?.permission) {
+      throw new Error(
+        `NEAR RPC error: ${data.error?.message || "unexpected response"}`
+      );
+    }
+
+    const permission = data.result.permission;
+    if (permission === "FullAccess") {
+      return { type: "full-access" };
+    }
+    return {
+      type: "function-call",
+      receiverId: permission.FunctionCall.receiver_id,
+      methodNames: permission.FunctionCall.method_names,
+    };
+  }
+}
+
+export interface KeyPolicy {
+  /** Accept function-call access keys as well as full-access keys. */
+  allowFunctionCallKeys: boolean;
+  /** Contracts a function-call key may be scoped to. */
+  functionCallContracts: string[];
+  /**
+   * Authoritative key lookup. When set, tokens are verified offline and
+   * only this decides whether the key belongs to the account; without it,
+   * near-sign-verify asks FastNear.
+   */
+  resolver?: AccessKeyResolver;
+}
+
+async function enforceKeyPolicy(
+  accountId: string,
+  publicKey: string,
+  policy: KeyPolicy
+): Promise<void> {
+  if (!policy.resolver) {
+    return;
+  }
+
+  let permission: AccessKeyPermission | null;
+  try {
+    permission = await policy.resolver.getAccessKey(accountId, publicKey);
+  } catch (error: any) {
+    throw new AuthTokenError(
+      `Could not look up access key on chain: ${error.message}`
+    );
+  }
+
+  if (!permission) {
+    throw new AuthTokenError(
+      `Public key is not an access key of ${accountId} on chain`
+    );
+  }
+
+  if (permission.type === "function-call") {
+    if (!policy.allowFunctionCallKeys) {
+      throw new AuthTokenError("A full-access key is required");
+    }
+    if (!policy.functionCallContracts.includes(permission.receiverId)) {
+      throw new AuthTokenError(
+        `Function-call key for ${permission.receiverId} is not accepted`
+      );
+    }
+  }
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+export class AuthTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthTokenError";
+  }
+}
+
+/**
+ * Remembers the nonce of every accepted auth token until it would have
+ * expired anyway, so each signature authorizes exactly one request.
+ */
+export class ReplayCache {
+  private log = logger.child({ component: "ReplayCache" });
+
+  constructor(private storage: StorageBackend) {}
+
+  async claim(key: string, ttlMs: number): Promise<boolean> {
+    return this.storage.claimReplayKey(key, Date.now() + ttlMs);
+  }
+
+  // Whether `key` was claimed, without claiming it
+  async has(key: string): Promise<boolean> {
+    return this.storage.hasReplayKey(key);
+  }
+
+  async cleanup(): Promise<void> {
+    const cleaned = await this.storage.deleteReplayKeysBefore(Date.now());
+    if (cleaned > 0) {
+      this.log.info("Cleaned up expired entries", { count: cleaned });
+    }
+  }
+}
+
+/**
+ * Verifies that `authToken` signs exactly this action and payload for
+ * `recipient` with a key `keyPolicy` accepts, and that it has not been
+ * used before.
+ */
+export async function verifyActionToken(
+  authToken: string,
+  options: {
+    action: AuthAction;
+    payload: Record<string, unknown>;
+    recipient: string;
+    maxAge: number;
+    replayCache: ReplayCache;
+    keyPolicy: KeyPolicy;
+  }
+): Promise<{ accountId: string; publicKey: string }> {
+  const result = await checkActionToken(authToken, options);
+
+  const { nonce } = parseAuthToken(authToken);
+  const replayKey = `${result.accountId}:${Buffer.from(nonce).toString("hex")}`;
+  if (!(await options.replayCache.claim(replayKey, options.maxAge))) {
+    throw new AuthTokenError("Auth token has already been used");
+  }
+
+  return result;
+}
+
+/**
+ * `verifyActionToken` without the replay claim, for checking a token early
+ * that a later request will verify, and claim, in full.
+ */
+export async function checkActionToken(
+  authToken: string,
+  options: {
+    action: AuthAction;
+    payload: Record<string, unknown>;
+    recipient: string;
+    maxAge: number;
+    keyPolicy: KeyPolicy;
+  }
+): Promise<{ accountId: string; publicKey: string }> {
+  const result = await verifyTokenClaims(authToken, options);
+
+  await enforceKeyPolicy(result.accountId, result.publicKey, options.keyPolicy);
+
+  return { accountId: result.accountId, publicKey: result.publicKey };
+}
+
+/**
+ * Checks the token's signature, nonce age, recipient and message. Key
+ * ownership is left to FastNear (inside near-sign-verify) unless the key
+ * policy has a resolver, in which case nothing here touches the network.
+ */
+async function verifyTokenClaims(
+  authToken: string,
+  options: {
+    action: AuthAction;
+    payload: Record<string, unknown>;
+    recipient: string;
+    maxAge: number;
+    keyPolicy: KeyPolicy;
+  }
+): Promise<{ accountId: string; publicKey: string }> {
+  const expectedMessage = actionMessage(options.action, options.payload);
+  const messageMismatch = `Signed message does not match this ${options.action} request`;
+
+  if (!options.keyPolicy.resolver) {
+    try {
+      return await verify(authToken, {
+        expectedRecipient: options.recipient,
+        nonceMaxAge: options.maxAge,
+        expectedMessage,
+        requireFullAccessKey: !options.keyPolicy.allowFunctionCallKeys,
+      });
+    } catch (error: any) {
+      throw new AuthTokenError(
+        error.message?.startsWith("Message mismatch")
+          ? messageMismatch
+          : error.message || "Invalid NEAR signature"
+      );
+    }
+  }
+
+  let token;
+  try {
+    token = verifyTokenSignature(authToken);
+  } catch (error: any) {
+    throw new AuthTokenError(error.message || "Invalid auth token");
+  }
+  if (!token.valid) {
+    throw new AuthTokenError("Cryptographic signature verification failed");
+  }
+  checkNonceAge(parseAuthToken(authToken).nonce, options.maxAge);
+  if (token.recipient !== options.recipient) {
+    throw new AuthTokenError(
+      `Recipient mismatch: expected '${options.recipient}', but recipient is '${token.recipient}'`
+    );
+  }
+  if (token.message !== expectedMessage) {
+    throw new AuthTokenError(messageMismatch);
+  }
+  return { accountId: token.accountId, publicKey: token.publicKey };
+}
+
+// Same rule as near-sign-verify: the first 16 bytes are the signing time in
+// milliseconds as zero-padded ASCII digits
+function checkNonceAge(nonce: ArrayLike<number>, maxAge: number): void {
+  const signedAt = Number(
+    new TextDecoder().decode(Uint8Array.from(nonce).subarray(0, 16))
+  );
+  if (nonce.length !== 32 || !Number.isSafeInteger(signedAt)) {
+    throw new AuthTokenError("Nonce validation failed: invalid nonce");
+  }
+  const age = Date.now() - signedAt;
+  if (age < 0) {
+    throw new AuthTokenError(
+      "Nonce validation failed: Nonce timestamp is in the future"
+    );
+  }
+  if (age > maxAge) {
+    throw new AuthTokenError("Nonce validation failed: Nonce has expired");
+  }
+}
+
+// ============================================================================
+// OFFLINE VERIFICATION
+// ============================================================================
+
+// NEP-413 payload prefix: 2^31 + 413, so a signed message can never be a
+// valid transaction
+const NEP413_TAG = 2147484061;
+
+function borshU32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+}
+
+function borshString(value: string): Buffer {
+  const bytes = Buffer.from(value, "utf8");
+  return Buffer.concat([borshU32(bytes.length), bytes]);
+}
+
+/**
+ * Checks the ed25519 signature inside an auth token against the public key
+ * it names, without any network access. This proves the key signed the
+ * message, not that the key belonged to the account at the time; that was
+ * checked when the token was first accepted.
+ */
+export function verifyTokenSignature(authToken: string): {
+  valid: boolean;
+  accountId: string;
+  publicKey: string;
+  message: string;
+  recipient: string;
+} {
+  const token = parseAuthToken(authToken);
+  const payload = Buffer.concat([
+    borshU32(NEP413_TAG),
+    borshString(token.message),
+    Buffer.from(token.nonce),
+    borshString(token.recipient),
+    token.callbackUrl
+      ? Buffer.concat([Buffer.from([1]), borshString(token.callbackUrl)])
+      : Buffer.from([0]),
+  ]);
+  const hash = createHash("sha256").update(payload).digest();
+
+  let valid: boolean;
+  try {
+    valid = PublicKey.fromString(token.publicKey).verify(
+      hash,
+      Buffer.from(token.signature, "base64")
+    );
+  } catch {
+    valid = false;
+  }
+
+  return {
+    valid,
+    accountId: token.accountId,
+    publicKey: token.publicKey,
+    message: token.message,
+    recipient: token.recipient,
+  };
+}
@@ -0,0 +1,113 @@
+import { constants, generateKeyPairSync, publicEncrypt } from "crypto";
+import { describe, expect, it } from "vitest";
+import { decryptDiscoursePayload, PayloadDecryptionError } from "./crypto";
+
+function rsaKeyPair() {
+  return generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: "spki", format: "pem" },
+    privateKeyEncoding: { type: "pkcs8", format: "pem" },
+  });
+}
+
+const { publicKey, privateKey } = rsaKeyPair();
+
+// Encrypts the way Discourse does: RSA PKCS#1 v1.5, base64
+function encryptPayload(plaintext: string, key = publicKey): string {
+  return publicEncrypt(
+    { key, padding: constants.RSA_PKCS1_PADDING },
+    Buffer.from(plaintext)
+  ).toString("base64");
+}
+
+function reasonFor(payload: string): string | undefined {
+  try {
+    decryptDiscoursePayload(payload, privateKey);
+  } catch (error) {
+    expect(error).toBeInstanceOf(PayloadDecryptionError);
+    return (error as PayloadDecryptionError).reason;
+  }
+  return undefined;
+}
+
+describe("decryptDiscoursePayload", () => {
+  it("decrypts the key and nonce", () => {
+    const payload = encryptPayload(
+      JSON.stringify({ key: "user-api-key", nonce: "abc", push: false, api: 4 })
+    );
+
+    expect(decryptDiscoursePayload(payload, privateKey)).toEqual({
+      key: "user-api-key",
+      nonce: "abc",
+      push: false,
+      api: 4,
+    });
+  });
+
+  it("accepts wrapped base64 with '+' decoded to spaces", () => {
+    let payload = "";
+    while (!payload.includes("+")) {
+      payload = encryptPayload(JSON.stringify({ key: "k", nonce: "n" }));
+    }
+    // Ruby's encode64 wraps at 60 characters; form decoding turns + into space
+    const mangled = payload.replace(/(.{60})/g, "$1\n").replace(/\+/g, " ");
+
+    expect(decryptDiscoursePayload(mangled, privateKey).key).toBe("k");
+  });
+
+  it("rejects oversized input before decrypting", () => {
+    expect(reasonFor("A".repeat(4096))).toBe("malformed_payload");
+  });
+
+  it("rejects input that is not base64", () => {
+    expect(reasonFor("not*base64!")).toBe("malformed_payload");
+    expect(reasonFor("")).toBe("malformed_payload");
+  });
+
+  it("rejects ciphertext of the wrong length", () => {
+    expect(reasonFor(Buffer.alloc(128, 1).toString("base64"))).toBe(
+      "invalid_length"
+    );
+    expect(reasonFor(Buffer.alloc(512, 1).toString("base64"))).toBe(
+      "invalid_length"
+    );
+  });
+
+  it("rejects a payload encrypted for another key", () => {
+    const other = rsaKeyPair();
+    const payload = encryptPayload(
+      JSON.stringify({ key: "k", nonce: "n" }),
+      other.publicKey
+    );
+
+    expect(reasonFor(payload)).toBe("decryption_failed");
+  });
+
+  it("rejects a block without PKCS#1 v1.5 padding", () => {
+    const block = Buffer.alloc(256, 0x41);
+    block[0] = 0x00;
+    block[1] = 0x01; // Signature padding, not encryption padding
+    const payload = publicEncrypt(
+      { key: publicKey, padding: constants.RSA_NO_PADDING },
+      block
+    ).toString("base64");
+
+    expect(reasonFor(payload)).toBe("decryption_failed");
+  });
+
+  it("rejects plaintext that is not JSON", () => {
+    expect(reasonFor(encryptPayload("key=abc&nonce=n"))).toBe(
+      "invalid_contents"
+    );
+  });
+
+  it("rejects JSON without a User API key", () => {
+    expect(reasonFor(encryptPayload(JSON.stringify({ nonce: "n" })))).toBe(
+      "invalid_contents"
+    );
+    expect(
+      reasonFor(encryptPayload(JSON.stringify({ key: "", nonce: "n" })))
+    ).toBe("invalid_contents");
+    expect(reasonFor(encryptPayload("null"))).toBe("invalid_contents");
+  });
+});
@@ -0,0 +1,271 @@
+import {
+  constants,
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createPrivateKey,
+  hkdfSync,
+  privateDecrypt,
+  randomBytes,
+} from "crypto";
+
+// ============================================================================
+// ENVELOPE ENCRYPTION
+// ============================================================================
+
+const SEALED_PREFIX = "enc:v1:";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+interface KeyEncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+function deriveKek(secret: string): KeyEncryptionKey {
+  const key = Buffer.from(
+    hkdfSync("sha256", secret, "discourse-near-plugin", "kek", 32)
+  );
+  const id = createHash("sha256").update(key).digest("hex").substring(0, 8);
+  return { id, key };
+}
+
+function aesGcmEncrypt(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function aesGcmDecrypt(key: Buffer, sealed: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_LENGTH);
+  const tag = sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const ciphertext = sealed.subarray(IV_LENGTH + TAG_LENGTH);
+  const decipher = createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Seals secrets with AES-256-GCM envelope encryption.
+ *
+ * Every value gets its own random data key; only that data key is wrapped
+ * with the master-derived key. Rotating the master secret therefore only
+ * re-wraps the data key (see `rewrap`), and values sealed under any of the
+ * `previousSecrets` stay readable until they have been rotated.
+ *
+ * Sealed format: `enc:v1:<kekId>:<wrappedDataKey>:<ciphertext>` (base64url).
+ */
+export class SecretBox {
+  private current: KeyEncryptionKey;
+  private keys = new Map<string, KeyEncryptionKey>();
+
+  constructor(secret: string, previousSecrets: string[] = []) {
+    this.current = deriveKek(secret);
+    for (const kek of [this.current, ...previousSecrets.map(deriveKek)]) {
+      if (!this.keys.has(kek.id)) {
+        this.keys.set(kek.id, kek);
+      }
+    }
+  }
+
+  static isSealed(value: string): boolean {
+    return value.startsWith(SEALED_PREFIX);
+  }
+
+  seal(plaintext: string): string {
+    const dataKey = randomBytes(32);
+    const wrappedKey = aesGcmEncrypt(this.current.key, dataKey);
+    const ciphertext = aesGcmEncrypt(dataKey, Buffer.from(plaintext, "utf8"));
+
+    return [
+      SEALED_PREFIX + this.current.id,
+      wrappedKey.toString("base64url"),
+      ciphertext.toString("base64url"),
+    ].join(":");
+  }
+
+  open(value: string): string {
+    // Values written before encryption was enabled are stored as-is
+    if (!SecretBox.isSealed(value)) {
+      return value;
+    }
+
+    const { dataKey, ciphertext } = this.unwrap(value);
+    return aesGcmDecrypt(dataKey, ciphertext).toString("utf8");
+  }
+
+  /** True for plaintext values and ones sealed under a retired secret. */
+  needsRewrap(value: string): boolean {
+    return (
+      !SecretBox.isSealed(value) || this.parse(value).kekId !== this.current.id
+    );
+  }
+
+  /** Re-wraps the data key under the current master secret. */
+  rewrap(value: string): string {
+    if (!SecretBox.isSealed(value)) {
+      return this.seal(value);
+    }
+
+    const { dataKey, ciphertext } = this.unwrap(value);
+    return [
+      SEALED_PREFIX + this.current.id,
+      aesGcmEncrypt(this.current.key, dataKey).toString("base64url"),
+      ciphertext.toString("base64url"),
+    ].join(":");
+  }
+
+  private parse(value: string) {
+    const parts = value.substring(SEALED_PREFIX.length).split(":");
+    if (parts.length !== 3) {
+      throw new Error("Malformed sealed value");
+    }
+    const [kekId, wrappedKey, ciphertext] = parts as [string, string, string];
+    return {
+      kekId,
+      wrappedKey: Buffer.from(wrappedKey, "base64url"),
+      ciphertext: Buffer.from(ciphertext, "base64url"),
+    };
+  }
+
+  private unwrap(value: string) {
+    const { kekId, wrappedKey, ciphertext } = this.parse(value);
+    const kek = this.keys.get(kekId);
+    if (!kek) {
+      throw new Error(`No encryption key available for key id ${kekId}`);
+    }
+    return { dataKey: aesGcmDecrypt(kek.key, wrappedKey), ciphertext };
+  }
+}
+
+// ============================================================================
+// DISCOURSE USER API PAYLOAD
+// ============================================================================
+
+export type PayloadDecryptionReason =
+  | "malformed_payload"
+  | "invalid_length"
+  | "decryption_failed"
+  | "invalid_contents";
+
+export class PayloadDecryptionError extends Error {
+  constructor(
+    readonly reason: PayloadDecryptionReason,
+    message: string
+  ) {
+    super(message);
+    this.name = "PayloadDecryptionError";
+  }
+}
+
+export interface DiscourseAuthPayload {
+  key: string;
+  nonce: string;
+  push?: boolean;
+  api?: number;
+  [key: string]: unknown;
+}
+
+// Far larger than any RSA-4096 ciphertext, small enough to reject junk early
+const MAX_PAYLOAD_LENGTH = 2048;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+/**
+ * Strips EME-PKCS1-v1_5 padding (0x00 0x02 PS 0x00 M) from a raw RSA block.
+ * Node refuses RSA_PKCS1_PADDING for private decryption, so Discourse's
+ * payload is decrypted with RSA_NO_PADDING and unpadded here.
+ */
+function unpadPkcs1v15(block: Buffer): Buffer | null {
+  if (block.length < 11 || block[0] !== 0x00 || block[1] !== 0x02) {
+    return null;
+  }
+  const separator = block.indexOf(0x00, 2);
+  // At least 8 bytes of non-zero padding are required
+  if (separator < 10) {
+    return null;
+  }
+  return block.subarray(separator + 1);
+}
+
+/**
+ * Decrypts the `payload` Discourse appends to the User API auth redirect:
+ * base64 of an RSA PKCS#1 v1.5 encrypted JSON document containing the
+ * generated User API key and the nonce the request was made with.
+ */
+export function decryptDiscoursePayload(
+  payload: string,
+  privateKeyPem: string
+): DiscourseAuthPayload {
+  if (payload.length > MAX_PAYLOAD_LENGTH) {
+    throw new PayloadDecryptionError(
+      "malformed_payload",
+      "Payload is too large"
+    );
+  }
+
+  // Discourse wraps base64 lines, and URL decoding may turn "+" into spaces
+  const normalized = payload.replace(/[\r\n\t]/g, "").replace(/ /g, "+");
+  if (!BASE64_PATTERN.test(normalized)) {
+    throw new PayloadDecryptionError(
+      "malformed_payload",
+      "Payload is not valid base64"
+    );
+  }
+
+  const privateKey = createPrivateKey(privateKeyPem);
+  const modulusBits = privateKey.asymmetricKeyDetails?.modulusLength ?? 0;
+  const modulusBytes = modulusBits / 8;
+  const ciphertext = Buffer.from(normalized, "base64");
+
+  if (ciphertext.length !== modulusBytes) {
+    throw new PayloadDecryptionError(
+      "invalid_length",
+      `Payload must be ${modulusBytes} bytes, got ${ciphertext.length}`
+    );
+  }
+
+  // Padding and RSA failures share one error so callers can't tell them apart
+  let plaintext: Buffer | null;
+  try {
+    plaintext = unpadPkcs1v15(
+      privateDecrypt(
+        { key: privateKey, padding: constants.RSA_NO_PADDING },
+        ciphertext
+      )
+    );
+  } catch {
+    plaintext = null;
+  }
+
+  if (!plaintext) {
+    throw new PayloadDecryptionError(
+      "decryption_failed",
+      "Payload could not be decrypted with the key for this nonce"
+    );
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(plaintext.toString("utf8"));
+  } catch {
+    throw new PayloadDecryptionError(
+      "invalid_contents",
+      "Decrypted payload is not valid JSON"
+    );
+  }
+
+  if (
+    !data ||
+    typeof data !== "object" ||
+    typeof (data as DiscourseAuthPayload).key !== "string" ||
+    (data as DiscourseAuthPayload).key.length === 0
+  ) {
+    throw new PayloadDecryptionError(
+      "invalid_contents",
+      "Decrypted payload does not contain a User API key"
+    );
+  }
+
+  return data as DiscourseAuthPayload;
+}
@@ -0,0 +1,138 @@
+import { retryAfterSeconds } from "./resilience";
+
+// ============================================================================
+// DISCOURSE API ERRORS
+// ============================================================================
+
+// Discourse's error body, e.g.
+// {"errors":["Title is too short"],"error_type":"invalid_parameters"}
+interface DiscourseErrorBody {
+  errors?: string[];
+  error_type?: string;
+  extras?: { wait_seconds?: number };
+}
+
+/** A request Discourse answered with an error, or that never got an answer. */
+export class DiscourseApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number, // 0 when Discourse could not be reached
+    readonly errorType?: string,
+    readonly errors: string[] = []
+  ) {
+    super(message);
+    this.name = "DiscourseApiError";
+  }
+}
+
+/** The request was understood but its content was refused (422). */
+export class DiscourseValidationError extends DiscourseApiError {
+  override name = "DiscourseValidationError";
+}
+
+/** The acting user may not do this, e.g. post in a closed category. */
+export class DiscoursePermissionError extends DiscourseApiError {
+  override name = "DiscoursePermissionError";
+}
+
+export class DiscourseNotFoundError extends DiscourseApiError {
+  override name = "DiscourseNotFoundError";
+}
+
+/** Discourse's own rate limit; `waitSeconds` is how long it asked to wait. */
+export class DiscourseRateLimitError extends DiscourseApiError {
+  override name = "DiscourseRateLimitError";
+
+  constructor(
+    message: string,
+    status: number,
+    readonly waitSeconds: number,
+    errorType?: string,
+    errors?: string[]
+  ) {
+    super(message, status, errorType, errors);
+  }
+}
+
+/**
+ * Discourse could not be reached, timed out, or the circuit breaker is
+ * holding requests back; `retryAfter` is set in the last case.
+ */
+export class DiscourseUnavailableError extends DiscourseApiError {
+  override name = "DiscourseUnavailableError";
+
+  constructor(message: string, readonly retryAfter?: number) {
+    super(message, 0);
+  }
+}
+
+/** Discourse no longer accepts the user's User API key. */
+export class DiscourseAuthRevokedError extends DiscourseApiError {
+  override name = "DiscourseAuthRevokedError";
+}
+
+// Discourse answers an unknown or revoked User API key with a 403
+// `invalid_access` like any other refusal; only the message tells them apart
+const INVALID_KEY_MESSAGE = /api username or key is invalid|user api key/i;
+
+const DEFAULT_WAIT_SECONDS = 60;
+
+/**
+ * Reads a failed response into the matching error class. `credential` says
+ * whether the request used the user's own User API key, the only case in
+ * which an authentication failure means the linkage's key was revoked.
+ */
+export async function discourseErrorFromResponse(
+  response: Response,
+  credential: "user" | "system" | "anonymous"
+): Promise<DiscourseApiError> {
+  const text = await response.text();
+  let body: DiscourseErrorBody = {};
+  try {
+    body = JSON.parse(text) ?? {};
+  } catch {
+    // HTML error pages and proxies' plain-text bodies carry no details
+  }
+
+  const errors = Array.isArray(body.errors) ? body.errors.map(String) : [];
+  const errorType = body.error_type;
+  const status = response.status;
+  const message =
+    errors.join("; ") ||
+    `Discourse returned ${status}${text ? `: ${text.slice(0, 200)}` : ""}`;
+
+  if (status === 429 || errorType === "rate_limit") {
+    const waitSeconds =
+      body.extras?.wait_seconds ??
+      retryAfterSeconds(response) ??
+      DEFAULT_WAIT_SECONDS;
+    return new DiscourseRateLimitError(
+      message,
+      status,
+      waitSeconds,
+      errorType,
+      errors
+    );
+  }
+
+  if (
+    status === 401 ||
+    errorType === "not_logged_in" ||
+    (status === 403 && INVALID_KEY_MESSAGE.test(message))
+  ) {
+    // Without the user's own key, this is the server's configuration problem
+    return credential === "user"
+      ? new DiscourseAuthRevokedError(message, status, errorType, errors)
+      : new DiscourseApiError(message, status, errorType, errors);
+  }
+  if (status === 404 || errorType === "not_found") {
+    return new DiscourseNotFoundError(message, status, errorType, errors);
+  }
+  if (status === 403 || errorType === "invalid_access") {
+    return new DiscoursePermissionError(message, status, errorType, errors);
+  }
+  if (status === 422 || errorType === "invalid_parameters") {
+    return new DiscourseValidationError(message, status, errorType, errors);
+  }
+  return new DiscourseApiError(message, status, errorType, errors);
+}
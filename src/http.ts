@@ -0,0 +1,448 @@
+import { OpenAPIGenerator } from "@orpc/openapi";
+import { ZodToJsonSchemaConverter } from "@orpc/zod/zod4";
+import type { IncomingMessage, ServerResponse } from "http";
+
+// ============================================================================
+// CONTRACT ROUTES
+// ============================================================================
+
+// The parts of an oRPC contract procedure the HTTP layer reads
+interface ContractProcedure {
+  "~orpc": {
+    route: {
+      method?: string;
+      path?: string;
+      summary?: string;
+      successStatus?: number;
+    };
+    errorMap: Record<string, { status?: number } | undefined>;
+  };
+}
+
+export interface ContractRoute {
+  procedure: string; // Its name on the contract and on the plugin client
+  method: string;
+  path: string;
+  summary?: string;
+  successStatus: number;
+  // Error code → HTTP status, as declared with `.errors()`
+  errorStatuses: Record<string, number>;
+}
+
+/**
+ * Lists the HTTP routes of a flat oRPC contract, mounted under `prefix`.
+ * Procedures without a `.route()` path are left out.
+ */
+export function contractRoutes(
+  contract: Record<string, ContractProcedure>,
+  prefix = ""
+): ContractRoute[] {
+  return Object.entries(contract).flatMap(([procedure, definition]) => {
+    const { route, errorMap } = definition["~orpc"];
+    if (!route.path) {
+      return [];
+    }
+
+    const errorStatuses: Record<string, number> = {};
+    for (const [code, error] of Object.entries(errorMap)) {
+      if (error?.status) {
+        errorStatuses[code] = error.status;
+      }
+    }
+    return [
+      {
+        procedure,
+        method: route.method ?? "POST",
+        path: `${prefix}${route.path}`,
+        summary: route.summary,
+        successStatus: route.successStatus ?? 200,
+        errorStatuses,
+      },
+    ];
+  });
+}
+
+/**
+ * The status an error from a procedure is sent with: the one its code is
+ * declared with on the contract, else the error's own, else 500.
+ */
+export function errorStatus(error: any, route?: ContractRoute): number {
+  const declared = error?.code && route?.errorStatuses[error.code];
+  if (declared) {
+    return declared;
+  }
+  return Number.isInteger(error?.status) && error.status >= 400
+    ? error.status
+    : 500;
+}
+
+// ============================================================================
+// REQUESTS AND RESPONSES
+// ============================================================================
+
+/** A request refused by the HTTP layer before it reached the plugin. */
+export class HttpError extends Error {
+  constructor(readonly status: number, readonly code: string, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * Reads the raw body, refusing more than `maxBytes` with a 413. The rest
+ * of an oversized body is drained, not buffered, so the 413 can be sent.
+ */
+export function readBody(
+  req: IncomingMessage,
+  maxBytes: number
+): Promise<Buffer> {
+  const tooLarge = () =>
+    new HttpError(
+      413,
+      "PAYLOAD_TOO_LARGE",
+      `Request body exceeds ${maxBytes} bytes`
+    );
+
+  if (Number(req.headers["content-length"]) > maxBytes) {
+    req.resume();
+    return Promise.reject(tooLarge());
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        req.off("data", onData);
+        req.resume();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on("data", onData);
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Reads a JSON object body; an empty body reads as `{}`. Anything else is
+ * refused with a 400, 413 or 415 before a procedure sees it.
+ */
+export async function readJsonBody(
+  req: IncomingMessage,
+  maxBytes: number
+): Promise<Record<string, unknown>> {
+  const body = await readBody(req, maxBytes);
+  if (body.length === 0) {
+    return {};
+  }
+
+  const contentType = req.headers["content-type"] ?? "";
+  if (!/^application\/([\w.+-]+\+)?json\b/i.test(contentType)) {
+    throw new HttpError(
+      415,
+      "UNSUPPORTED_MEDIA_TYPE",
+      "Request body must be application/json"
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body.toString());
+  } catch {
+    throw new HttpError(400, "BAD_REQUEST", "Request body is not valid JSON");
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new HttpError(
+      400,
+      "BAD_REQUEST",
+      "Request body must be a JSON object"
+    );
+  }
+  return parsed as Record<string, unknown>;
+}
+
+export function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown
+): void {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+}
+
+/** `{ error, code, data }`, with `Retry-After` when the error carries one. */
+export function sendError(
+  res: ServerResponse,
+  status: number,
+  error: any
+): void {
+  if (error.data?.retryAfter) {
+    res.setHeader("Retry-After", String(error.data.retryAfter));
+  }
+  if (status === 413) {
+    // The client may still be sending; don't wait for the rest
+    res.setHeader("Connection", "close");
+  }
+  sendJson(res, status, {
+    error: error.message || "Internal server error",
+    code: error.code,
+    data: error.data,
+  });
+}
+
+// ============================================================================
+// OPENAPI
+// ============================================================================
+
+/**
+ * Generates the OpenAPI 3.1 document for the contract's procedures that
+ * `include` accepts, served from `serverUrl`.
+ */
+export async function openApiDocument(
+  contract: Record<string, ContractProcedure>,
+  options: {
+    title: string;
+    version: string;
+    serverUrl: string;
+    include: (procedure: string) => boolean;
+  }
+) {
+  const generator = new OpenAPIGenerator({
+    schemaConverters: [new ZodToJsonSchemaConverter()],
+  });
+  const document = await generator.generate(contract as any, {
+    info: { title: options.title, version: options.version },
+    servers: [{ url: options.serverUrl }],
+    filter: ({ path }) => options.include(path.join(".")),
+  });
+
+  // The generator describes oRPC's own error body; rewrite each variant to
+  // the `{ error, code, data }` that `sendError` actually sends
+  for (const operations of Object.values(document.paths ?? {})) {
+    for (const operation of Object.values(operations ?? {}) as any[]) {
+      for (const [status, response] of Object.entries<any>(
+        operation?.responses ?? {}
+      )) {
+        const schema = response?.content?.["application/json"]?.schema;
+        if (Number(status) >= 400 && Array.isArray(schema?.oneOf)) {
+          schema.oneOf = schema.oneOf.map(sentErrorBody);
+        }
+      }
+    }
+  }
+  return document;
+}
+
+function sentErrorBody(variant: any) {
+  const { message, code, data } = variant.properties ?? {};
+  return {
+    type: "object",
+    properties: { error: message, code, data },
+    required: [
+      "error",
+      "code",
+      ...(variant.required?.includes("data") ? ["data"] : []),
+    ],
+  };
+}
+
+// Scalar's self-contained browser bundle, pinned to a version and checked
+// against its hash, so the CDN can't serve the docs page other code. To
+// upgrade, bump both: the hash is the sha384 of `dist/browser/standalone.js`
+// in that version's npm tarball.
+const SCALAR_BUNDLE = {
+  src: "https://cdn.jsdelivr.net/npm/@scalar/api-reference@1.72.1/dist/browser/standalone.js",
+  integrity:
+    "sha384-U11tb2XnKvmwt8RlTvnwUnYgrN+ur4Xyh9htLhjajWNR/Oyl5AX5DEz00qRmlrmK",
+};
+
+// Interactive reference for the document at `specUrl`, rendered by Scalar
+export function renderDocsPage(title: string, specUrl: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>${title}</title>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+</head>
+<body>
+  <script id="api-reference" data-url="${specUrl}"></script>
+  <script src="${SCALAR_BUNDLE.src}" integrity="${SCALAR_BUNDLE.integrity}" crossorigin="anonymous"></script>
+</body>
+</html>`;
+}
+
+// What the docs page needs: that one bundle, the styles and fonts it
+// injects, and the document and "try it" requests back to this server
+export const DOCS_CONTENT_SECURITY_POLICY = [
+  "default-src 'none'",
+  `script-src ${SCALAR_BUNDLE.src}`,
+  "style-src 'self' 'unsafe-inline'",
+  "font-src https://fonts.scalar.com data:",
+  "img-src 'self' data: https:",
+  "connect-src 'self'",
+  "worker-src blob:",
+  "base-uri 'none'",
+  "frame-ancestors 'none'",
+].join("; ");
+
+// ============================================================================
+// REDIRECT FLOW STATE
+// ============================================================================
+
+// Where the cookie is sent back; nothing else on the server needs it
+const CALLBACK_PATH = "/auth/callback";
+
+// One per nonce, so two sign-ins in the same browser don't clobber each other
+function stateCookieName(nonce: string): string {
+  return `link_state_${nonce.substring(0, 16)}`;
+}
+
+/**
+ * The cookie that ties a redirect flow to the browser that started it.
+ * `SameSite=Lax` still sends it on the top-level redirect back from
+ * Discourse; scripts can't read it.
+ */
+export function stateCookie(
+  nonce: string,
+  verifier: string,
+  options: { secure: boolean; maxAgeSeconds: number }
+): string {
+  return [
+    `${stateCookieName(nonce)}=${verifier}`,
+    `Path=${CALLBACK_PATH}`,
+    `Max-Age=${options.maxAgeSeconds}`,
+    "HttpOnly",
+    "SameSite=Lax",
+    ...(options.secure ? ["Secure"] : []),
+  ].join("; ");
+}
+
+// Clears the cookie once the callback has used it
+export function clearStateCookie(nonce: string): string {
+  return `${stateCookieName(nonce)}=; Path=${CALLBACK_PATH}; Max-Age=0`;
+}
+
+export function readStateCookie(
+  req: IncomingMessage,
+  nonce: string
+): string | undefined {
+  const name = stateCookieName(nonce);
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const separator = part.indexOf("=");
+    if (separator > 0 && part.slice(0, separator).trim() === name) {
+      return part.slice(separator + 1).trim();
+    }
+  }
+  return undefined;
+}
+
+// ============================================================================
+// CORS AND SECURITY HEADERS
+// ============================================================================
+
+export interface CorsPolicy {
+  origins: string[]; // Exact origins, or "*" for any
+  allowCredentials: boolean;
+}
+
+/**
+ * Parses a comma-separated origin allowlist such as
+ * `https://app.example,http://localhost:5173`. Throws on anything but bare
+ * origins and `*`, since a path or typo would never match and silently
+ * lock the app out.
+ */
+export function parseCorsOrigins(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim().replace(/\/$/, ""))
+    .filter(Boolean)
+    .map((entry) => {
+      if (entry === "*") {
+        return entry;
+      }
+      let origin = "null";
+      try {
+        origin = new URL(entry).origin;
+      } catch {
+        // Reported below
+      }
+      if (origin === "null" || origin !== entry.toLowerCase()) {
+        throw new Error(`Invalid CORS origin: ${entry}`);
+      }
+      return origin;
+    });
+}
+
+/**
+ * Adds CORS headers when the request's `Origin` is allowed; other origins
+ * get none, so browsers refuse them. With credentials the origin is echoed
+ * back, as browsers reject `*` for credentialed requests.
+ */
+export function applyCors(
+  req: IncomingMessage,
+  res: ServerResponse,
+  policy: CorsPolicy
+): void {
+  res.setHeader("Vary", "Origin");
+  const origin = req.headers.origin;
+  const anyOrigin = policy.origins.includes("*");
+  if (!origin || (!anyOrigin && !policy.origins.includes(origin))) {
+    return;
+  }
+
+  res.setHeader(
+    "Access-Control-Allow-Origin",
+    anyOrigin && !policy.allowCredentials ? "*" : origin
+  );
+  if (policy.allowCredentials) {
+    res.setHeader("Access-Control-Allow-Credentials", "true");
+  }
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, X-Request-Id");
+  res.setHeader("Access-Control-Expose-Headers", "X-Request-Id, Retry-After");
+  res.setHeader("Access-Control-Max-Age", "600");
+}
+
+/**
+ * Headers for every response. The CSP suits JSON; HTML pages replace it
+ * with their own. HSTS is only sent when `hstsMaxAge` is set, i.e. when the
+ * server is known to be reached over HTTPS.
+ */
+export function applySecurityHeaders(
+  res: ServerResponse,
+  options: { hstsMaxAge: number }
+): void {
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  res.setHeader("X-Frame-Options", "DENY");
+  // The callback URL carries the encrypted payload; keep it out of Referer
+  res.setHeader("Referrer-Policy", "no-referrer");
+  res.setHeader("Cross-Origin-Opener-Policy", "same-origin");
+  res.setHeader(
+    "Content-Security-Policy",
+    "default-src 'none'; frame-ancestors 'none'"
+  );
+  if (options.hstsMaxAge > 0) {
+    res.setHeader(
+      "Strict-Transport-Security",
+      `max-age=${options.hstsMaxAge}; includeSubDomains`
+    );
+  }
+}
+
+/** CSP for a server-rendered page whose inline script and style carry `nonce`. */
+export function pageContentSecurityPolicy(nonce: string): string {
+  return [
+    "default-src 'none'",
+    `script-src 'nonce-${nonce}'`,
+    `style-src 'nonce-${nonce}'`,
+    "base-uri 'none'",
+    "form-action 'none'",
+    "frame-ancestors 'none'",
+  ].join("; ");
+}
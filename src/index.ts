@@ -1,46 +1,286 @@
 import { createPlugin, CommonPluginErrors } from "every-plugin";
 import { Effect } from "every-plugin/effect";
-import { oc, implement } from "every-plugin/orpc";
+import { oc, implement, call } from "every-plugin/orpc";
 import { z } from "every-plugin/zod";
-import { verify, parseAuthToken } from "near-sign-verify";
-import { randomBytes, generateKeyPairSync } from "crypto";
-import { exec } from "child_process";
+import {
+  randomBytes,
+  generateKeyPair,
+  createHash,
+  timingSafeEqual,
+} from "crypto";
 import { promisify } from "util";
-import { writeFileSync, unlinkSync } from "fs";
-import { join } from "path";
-
-const execAsync = promisify(exec);
+import {
+  createStorage,
+  type Linkage,
+  type LinkageStatus,
+  type NonceData,
+  type RequestMeta,
+  type StorageBackend,
+} from "./storage";
+import {
+  verifyActionToken,
+  checkActionToken,
+  AuthTokenError,
+  ReplayCache,
+  RpcAccessKeyResolver,
+  type AccessKeyResolver,
+  type AuthAction,
+  type KeyPolicy,
+} from "./auth";
+import {
+  SecretBox,
+  decryptDiscoursePayload,
+  PayloadDecryptionError,
+} from "./crypto";
+import {
+  verifyWebhookSignature,
+  linkageUpdateForEvent,
+  applyLinkageUpdate,
+  webhookUser,
+  WebhookBodyError,
+} from "./webhooks";
+import { AuditLog, verifyAuditEvidence } from "./audit";
+import { RateLimiter, type RateLimitScope } from "./ratelimit";
+import {
+  DiscourseApiError,
+  DiscourseAuthRevokedError,
+  DiscourseNotFoundError,
+  DiscoursePermissionError,
+  DiscourseRateLimitError,
+  DiscourseValidationError,
+  DiscourseUnavailableError,
+  discourseErrorFromResponse,
+} from "./discourse-errors";
+import {
+  CircuitBreaker,
+  backoffDelay,
+  retryAfterSeconds,
+  sleep,
+} from "./resilience";
+import { logger, LOG_LEVELS, type Logger } from "./logger";
+import {
+  discourseRequestDuration,
+  discourseRequestsTotal,
+  discourseRetriesTotal,
+} from "./metrics";
 
 // ============================================================================
 // SCHEMAS
 // ============================================================================
 
-const contract = oc.router({
+// Scopes a Discourse User API key can be requested with
+const UserApiScopeSchema = z.enum([
+  "read",
+  "write",
+  "message_bus",
+  "push",
+  "notifications",
+  "session_info",
+  "one_time_password",
+  "bookmarks_calendar",
+  "user_status",
+]);
+
+const ClientAppSchema = z.object({
+  clientId: z.string().min(1),
+  applicationName: z.string().min(1), // Display name shown on Discourse
+  scopes: z.array(UserApiScopeSchema).min(1).default(["read", "write"]),
+  // App URLs (origin + path prefix) allowed as `authRedirect`
+  redirects: z.array(z.string().url()).default([]),
+});
+
+type ClientApp = z.infer<typeof ClientAppSchema>;
+
+const PaginationSchema = z.object({
+  page: z.number().int().min(0),
+  hasMore: z.boolean(),
+});
+
+const CategorySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  slug: z.string(),
+  color: z.string(),
+  description: z.string().nullable(),
+  topicCount: z.number(),
+  postCount: z.number(),
+  parentCategoryId: z.number().nullable(),
+});
+
+const TopicSummarySchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  slug: z.string(),
+  categoryId: z.number().nullable(),
+  postsCount: z.number(),
+  replyCount: z.number(),
+  views: z.number(),
+  likeCount: z.number(),
+  createdAt: z.string(),
+  lastPostedAt: z.string().nullable(),
+  pinned: z.boolean(),
+  closed: z.boolean(),
+  url: z.string(),
+});
+
+const PostSchema = z.object({
+  id: z.number(),
+  postNumber: z.number(),
+  username: z.string(),
+  name: z.string().nullable(),
+  avatarUrl: z.string(),
+  cooked: z.string(), // Rendered HTML
+  createdAt: z.string(),
+  replyToPostNumber: z.number().nullable(),
+});
+
+const UserProfileSchema = z.object({
+  id: z.number(),
+  username: z.string(),
+  name: z.string().nullable(),
+  avatarUrl: z.string(),
+  title: z.string().nullable(),
+  bioExcerpt: z.string().nullable(),
+  trustLevel: z.number(),
+  createdAt: z.string(),
+  lastPostedAt: z.string().nullable(),
+  profileUrl: z.string(),
+});
+
+// Common plugin errors plus the rate limiter's and the Discourse failures
+// that have no common equivalent; `retryAfter` is in seconds
+const PluginErrors = {
+  ...CommonPluginErrors,
+  TOO_MANY_REQUESTS: {
+    status: 429,
+    message: "Too many requests",
+    data: z.object({
+      retryAfter: z.number(),
+      limit: z.number(),
+      scope: z.enum(["ip", "account", "route", "nonces"]),
+    }),
+  },
+  // Discourse refused the content, e.g. a title below its minimum length
+  DISCOURSE_VALIDATION: {
+    status: 422,
+    message: "Discourse rejected the request",
+    data: z.object({
+      errors: z.array(z.string()),
+    }),
+  },
+  // The linkage's User API key was revoked on Discourse; re-link to fix
+  DISCOURSE_AUTH_REVOKED: {
+    status: 401,
+    message: "Discourse no longer accepts this account's User API key",
+    data: z.object({}),
+  },
+};
+
+// Public view of a linkage; never includes the User API key
+const LinkageSummarySchema = z.object({
+  nearAccount: z.string(),
+  discourseUsername: z.string(),
+  discourseUserId: z.number(),
+  scopes: z.array(z.string()),
+  // "revoked" means the user has to link again
+  status: z.enum(["active", "suspended", "revoked", "username_changed"]),
+  isPrimary: z.boolean(),
+  verifiedAt: z.string(),
+});
+
+// Set by the HTTP server, never by clients: recorded in the audit log,
+// used for per-IP rate limits and tagged on every log line of the request
+const RequestMetaSchema = z.object({
+  ip: z.string().optional(),
+  userAgent: z.string().optional(),
+  requestId: z.string().optional(),
+});
+
+const AuditEntrySchema = z.object({
+  id: z.number(),
+  timestamp: z.number(),
+  actor: z.string(),
+  action: z.string(),
+  target: z.string(),
+  details: z.record(z.string(), z.unknown()),
+  evidence: z
+    .object({
+      action: z.string(),
+      payload: z.record(z.string(), z.unknown()),
+      authToken: z.string(),
+      publicKey: z.string(),
+    })
+    .optional(),
+  meta: RequestMetaSchema.optional(),
+  // Present when re-verification was requested
+  verification: z
+    .object({ valid: z.boolean(), reason: z.string().optional() })
+    .optional(),
+});
+
+// Every admin route takes the admin secret; `moderator` names who is acting
+// in the audit trail
+const AdminAuthSchema = z.object({
+  adminKey: z.string(),
+  moderator: z.string().min(1).optional(),
+  meta: RequestMetaSchema.optional(),
+});
+
+const LinkageFiltersSchema = z.object({
+  status: LinkageSummarySchema.shape.status.optional(),
+  usernamePrefix: z.string().min(1).optional(), // Case-insensitive
+  linkedAfter: z.string().datetime().optional(),
+  linkedBefore: z.string().datetime().optional(),
+});
+
+type LinkageFilters = z.infer<typeof LinkageFiltersSchema>;
+
+// Exported for the HTTP server, which routes and documents it
+export const contract = oc.router({
   // Step 1: Get User API auth URL
   getUserApiAuthUrl: oc
-    .route({ method: "POST", path: "/auth/user-api-url" })
+    .route({
+      method: "POST",
+      path: "/auth/user-api-url",
+      summary: "Get User API auth URL",
+    })
     .input(
       z.object({
-        clientId: z.string(),
-        applicationName: z.string(),
+        clientId: z.string(), // Must be a registered client application
+        // Ignored: the registered display name is shown on Discourse
+        applicationName: z.string().optional(),
+        // Defaults to every scope the client is allowed
+        scopes: z.array(UserApiScopeSchema).min(1).optional(),
+        // App URL to return the browser to; must match the client's redirects
+        authRedirect: z.string().url().optional(),
+        meta: RequestMetaSchema.optional(),
       })
     )
     .output(
       z.object({
         authUrl: z.string().url(),
         nonce: z.string(),
+        scopes: z.array(UserApiScopeSchema),
+        // Redirect flow only: proves the callback returns to the browser that
+        // started it. The HTTP server moves it into a cookie.
+        stateVerifier: z.string().optional(),
       })
     )
-    .errors(CommonPluginErrors),
+    .errors(PluginErrors),
 
   // Step 2: Complete auth with encrypted payload and link NEAR account
   completeLink: oc
-    .route({ method: "POST", path: "/auth/complete" })
+    .route({
+      method: "POST",
+      path: "/auth/complete",
+      summary: "Complete User API + NEAR link",
+    })
     .input(
       z.object({
         payload: z.string(), // Encrypted payload from Discourse (base64)
         nonce: z.string(),
         authToken: z.string(), // NEAR signature
+        meta: RequestMetaSchema.optional(),
       })
     )
     .output(
@@ -48,17 +288,67 @@ const contract = oc.router({
         success: z.boolean(),
         nearAccount: z.string(),
         discourseUsername: z.string(),
+        // Set when this replaced an existing link for the same NEAR account
+        previousDiscourseUsername: z.string().optional(),
+        isPrimary: z.boolean(),
         message: z.string(),
       })
     )
-    .errors(CommonPluginErrors),
+    .errors(PluginErrors),
+
+  // Redirect flow: attach the link signature before sending the user to
+  // Discourse, so the callback can finish linking server-side
+  submitLinkSignature: oc
+    .route({
+      method: "POST",
+      path: "/auth/signature",
+      summary: "Attach link signature",
+    })
+    .input(
+      z.object({
+        nonce: z.string(),
+        authToken: z.string(), // NEAR signature for "complete-link"
+        meta: RequestMetaSchema.optional(),
+      })
+    )
+    .output(z.object({ success: z.boolean() }))
+    .errors(PluginErrors),
+
+  // Redirect flow: Discourse sent the browser back with the payload
+  completeAuthCallback: oc
+    .route({
+      method: "POST",
+      path: "/auth/callback",
+      summary: "Finish the browser redirect flow",
+    })
+    .input(
+      z.object({
+        state: z.string(), // The nonce, carried through auth_redirect
+        payload: z.string().optional(),
+        // From the cookie set with the auth URL
+        stateVerifier: z.string().optional(),
+        meta: RequestMetaSchema.optional(),
+      })
+    )
+    .output(
+      z.object({
+        status: z.enum(["success", "signature_required", "error"]),
+        redirectUrl: z.string().url(),
+      })
+    )
+    .errors(PluginErrors),
 
   // Step 3: Create Discourse post
   createPost: oc
-    .route({ method: "POST", path: "/posts/create" })
+    .route({
+      method: "POST",
+      path: "/posts/create",
+      summary: "Create Discourse post",
+    })
     .input(
       z.object({
         authToken: z.string(),
+        meta: RequestMetaSchema.optional(),
         title: z.string().min(15),
         raw: z.string().min(20),
         category: z.number().optional(),
@@ -70,44 +360,692 @@ const contract = oc.router({
         postUrl: z.string().optional(),
         postId: z.number().optional(),
         topicId: z.number().optional(),
-        error: z.string().optional(),
       })
     )
-    .errors(CommonPluginErrors),
+    .errors(PluginErrors),
+
+  // Reply to an existing topic
+  replyToTopic: oc
+    .route({
+      method: "POST",
+      path: "/posts/reply",
+      summary: "Reply to a topic",
+    })
+    .input(
+      z.object({
+        authToken: z.string(),
+        meta: RequestMetaSchema.optional(),
+        topicId: z.number().int().positive(),
+        raw: z.string().min(20),
+        replyToPostNumber: z.number().int().positive().optional(),
+      })
+    )
+    .output(
+      z.object({
+        success: z.boolean(),
+        postUrl: z.string().optional(),
+        postId: z.number().optional(),
+        topicId: z.number().optional(),
+        postNumber: z.number().optional(),
+      })
+    )
+    .errors(PluginErrors),
+
+  // Edit a post written by the linked Discourse account
+  editPost: oc
+    .route({ method: "POST", path: "/posts/edit", summary: "Edit own post" })
+    .input(
+      z.object({
+        authToken: z.string(),
+        meta: RequestMetaSchema.optional(),
+        postId: z.number().int().positive(),
+        raw: z.string().min(20),
+        editReason: z.string().max(255).optional(),
+      })
+    )
+    .output(
+      z.object({
+        success: z.boolean(),
+        postUrl: z.string().optional(),
+        postId: z.number().optional(),
+      })
+    )
+    .errors(PluginErrors),
+
+  // Delete a post written by the linked Discourse account
+  deletePost: oc
+    .route({
+      method: "POST",
+      path: "/posts/delete",
+      summary: "Delete own post",
+    })
+    .input(
+      z.object({
+        authToken: z.string(),
+        meta: RequestMetaSchema.optional(),
+        postId: z.number().int().positive(),
+      })
+    )
+    .output(
+      z.object({
+        success: z.boolean(),
+        postId: z.number().optional(),
+      })
+    )
+    .errors(PluginErrors),
+
+  // List forum categories
+  listCategories: oc
+    .route({
+      method: "POST",
+      path: "/categories/list",
+      summary: "List categories",
+    })
+    .input(
+      z.object({
+        page: z.number().int().min(0).default(0),
+        perPage: z.number().int().min(1).max(100).default(50),
+        meta: RequestMetaSchema.optional(),
+      })
+    )
+    .output(
+      PaginationSchema.extend({
+        categories: z.array(CategorySchema),
+      })
+    )
+    .errors(PluginErrors),
+
+  // Latest topics, optionally restricted to one category
+  getLatestTopics: oc
+    .route({ method: "POST", path: "/topics/latest", summary: "Latest topics" })
+    .input(
+      z.object({
+        categoryId: z.number().int().positive().optional(),
+        page: z.number().int().min(0).default(0),
+        meta: RequestMetaSchema.optional(),
+      })
+    )
+    .output(
+      PaginationSchema.extend({
+        topics: z.array(TopicSummarySchema),
+      })
+    )
+    .errors(PluginErrors),
+
+  // A topic with one page of its posts
+  getTopic: oc
+    .route({ method: "POST", path: "/topics/get", summary: "Topic with posts" })
+    .input(
+      z.object({
+        topicId: z.number().int().positive(),
+        page: z.number().int().min(0).default(0),
+        meta: RequestMetaSchema.optional(),
+      })
+    )
+    .output(
+      PaginationSchema.extend({
+        topic: TopicSummarySchema,
+        posts: z.array(PostSchema),
+      })
+    )
+    .errors(PluginErrors),
+
+  // Discourse profile of the user linked to a NEAR account
+  getUserProfile: oc
+    .route({
+      method: "POST",
+      path: "/users/profile",
+      summary: "Linked user's profile",
+    })
+    .input(
+      z.object({
+        nearAccount: z.string(),
+        meta: RequestMetaSchema.optional(),
+      })
+    )
+    .output(
+      UserProfileSchema.extend({
+        nearAccount: z.string(),
+      })
+    )
+    .errors(PluginErrors),
+
+  // Remove a linkage and revoke its User API key on Discourse
+  unlink: oc
+    .route({
+      method: "POST",
+      path: "/auth/unlink",
+      summary: "Unlink + revoke User API key",
+    })
+    .input(
+      z.object({
+        authToken: z.string(), // NEAR signature from the linked account
+        meta: RequestMetaSchema.optional(),
+      })
+    )
+    .output(
+      z.object({
+        success: z.boolean(),
+        nearAccount: z.string(),
+        discourseUsername: z.string(),
+        message: z.string(),
+      })
+    )
+    .errors(PluginErrors),
 
   // Get linkage info
   getLinkage: oc
-    .route({ method: "POST", path: "/linkage/get" })
-    .input(z.object({ nearAccount: z.string() }))
+    .route({
+      method: "POST",
+      path: "/linkage/get",
+      summary: "Check if account is linked",
+    })
+    .input(
+      z.object({
+        nearAccount: z.string(),
+        meta: RequestMetaSchema.optional(),
+      })
+    )
+    .output(
+      LinkageSummarySchema.extend({
+        // Every NEAR account linked to the same Discourse user
+        linkedAccounts: z.array(
+          LinkageSummarySchema.pick({
+            nearAccount: true,
+            status: true,
+            isPrimary: true,
+            verifiedAt: true,
+          })
+        ),
+      }).nullable()
+    )
+    .errors(PluginErrors),
+
+  // Make the signing account the primary one of its Discourse user
+  setPrimaryAccount: oc
+    .route({
+      method: "POST",
+      path: "/linkage/primary",
+      summary: "Set primary NEAR account",
+    })
+    .input(
+      z.object({
+        authToken: z.string(), // NEAR signature from the linked account
+        meta: RequestMetaSchema.optional(),
+      })
+    )
     .output(
+      z.object({
+        success: z.boolean(),
+        nearAccount: z.string(),
+        discourseUsername: z.string(),
+        previousPrimary: z.string().optional(),
+      })
+    )
+    .errors(PluginErrors),
+
+  // Reverse lookup: NEAR accounts linked to a Discourse user
+  getLinkageByDiscourseUser: oc
+    .route({
+      method: "POST",
+      path: "/linkage/by-discourse-user",
+      summary: "NEAR accounts of a Discourse user",
+    })
+    .input(
       z
         .object({
-          nearAccount: z.string(),
-          discourseUsername: z.string(),
-          verifiedAt: z.string(),
+          username: z.string().min(1).optional(),
+          userId: z.number().int().positive().optional(),
+          meta: RequestMetaSchema.optional(),
         })
-        .nullable()
+        .refine((input) => (input.username === undefined) !== !input.userId, {
+          message: "Provide exactly one of username or userId",
+        })
+    )
+    .output(z.object({ linkages: z.array(LinkageSummarySchema) }))
+    .errors(PluginErrors),
+
+  // Linkages for many NEAR accounts in one call
+  getLinkagesBatch: oc
+    .route({
+      method: "POST",
+      path: "/linkage/batch",
+      summary: "Look up many accounts",
+    })
+    .input(
+      z.object({
+        nearAccounts: z.array(z.string()).min(1).max(500),
+        meta: RequestMetaSchema.optional(),
+      })
+    )
+    .output(
+      z.object({
+        linkages: z.array(LinkageSummarySchema),
+        notFound: z.array(z.string()),
+      })
+    )
+    .errors(PluginErrors),
+
+  // Admin: browse linkages
+  adminListLinkages: oc
+    .route({
+      method: "POST",
+      path: "/admin/linkages/list",
+      summary: "Admin: list linkages",
+    })
+    .input(
+      AdminAuthSchema.merge(LinkageFiltersSchema).extend({
+        page: z.number().int().min(0).default(0),
+        perPage: z.number().int().min(1).max(500).default(100),
+      })
+    )
+    .output(
+      PaginationSchema.extend({
+        linkages: z.array(LinkageSummarySchema),
+        total: z.number(),
+      })
+    )
+    .errors(PluginErrors),
+
+  // Admin: every matching linkage as one JSON or CSV document
+  adminExportLinkages: oc
+    .route({
+      method: "POST",
+      path: "/admin/linkages/export",
+      summary: "Admin: export JSON/CSV",
+    })
+    .input(
+      AdminAuthSchema.merge(LinkageFiltersSchema).extend({
+        format: z.enum(["json", "csv"]).default("json"),
+      })
+    )
+    .output(
+      z.object({
+        format: z.enum(["json", "csv"]),
+        contentType: z.string(),
+        filename: z.string(),
+        count: z.number(),
+        data: z.string(),
+      })
+    )
+    .errors(PluginErrors),
+
+  // Admin: remove a linkage without the account's signature
+  adminForceUnlink: oc
+    .route({
+      method: "POST",
+      path: "/admin/linkages/unlink",
+      summary: "Admin: force-unlink",
+    })
+    .input(
+      AdminAuthSchema.extend({
+        nearAccount: z.string(),
+        reason: z.string().min(1),
+      })
+    )
+    .output(
+      z.object({
+        success: z.boolean(),
+        nearAccount: z.string(),
+        discourseUsername: z.string(),
+        // False if Discourse could not be reached; the linkage is removed anyway
+        keyRevoked: z.boolean(),
+        auditId: z.number(),
+      })
+    )
+    .errors(PluginErrors),
+
+  // Admin: audit history, optionally re-verifying each stored signature
+  getAuditHistory: oc
+    .route({
+      method: "POST",
+      path: "/admin/audit",
+      summary: "Admin: audit history",
+    })
+    .input(
+      AdminAuthSchema.extend({
+        nearAccount: z.string().optional(), // All accounts when omitted
+        beforeId: z.number().int().positive().optional(),
+        limit: z.number().int().min(1).max(500).default(50),
+        verify: z.boolean().default(false),
+      })
+    )
+    .output(
+      z.object({
+        entries: z.array(AuditEntrySchema),
+        hasMore: z.boolean(),
+      })
+    )
+    .errors(PluginErrors),
+
+  // Discourse user webhooks (renames, suspensions, deletions)
+  handleDiscourseWebhook: oc
+    .route({
+      method: "POST",
+      path: "/webhooks/discourse",
+      summary: "Discourse user events",
+    })
+    .input(
+      z.object({
+        event: z.string(), // X-Discourse-Event
+        eventId: z.string().optional(), // X-Discourse-Event-Id
+        signature: z.string(), // X-Discourse-Event-Signature
+        body: z.string(), // Raw request body, exactly as signed
+        meta: RequestMetaSchema.optional(),
+      })
     )
-    .errors(CommonPluginErrors),
+    .output(
+      z.object({
+        event: z.string(),
+        handled: z.boolean(),
+        linkagesUpdated: z.number(),
+        linkagesRemoved: z.number(),
+      })
+    )
+    .errors(PluginErrors),
+
+  // Liveness plus the state of the Discourse circuit breaker
+  getHealth: oc
+    .route({ method: "GET", path: "/health", summary: "Health check" })
+    .input(z.object({}))
+    .output(
+      z.object({
+        status: z.enum(["ok", "degraded"]),
+        discourse: z.object({
+          circuit: z.enum(["closed", "open", "half_open"]),
+          consecutiveFailures: z.number(),
+          openedAt: z.string().optional(),
+          retryAt: z.string().optional(),
+        }),
+      })
+    )
+    .errors(PluginErrors),
 });
 
 // ============================================================================
 // DISCOURSE CLIENT
 // ============================================================================
 
+interface DiscoursePost {
+  id: number;
+  user_id: number;
+  username: string;
+  topic_id: number;
+  topic_slug: string;
+  post_number: number;
+  [key: string]: any;
+}
+
+interface DiscourseCategory {
+  id: number;
+  name: string;
+  slug: string;
+  color: string;
+  description_text: string | null;
+  topic_count: number;
+  post_count: number;
+  parent_category_id?: number;
+}
+
+interface DiscourseTopic {
+  id: number;
+  title: string;
+  slug: string;
+  category_id: number | null;
+  posts_count: number;
+  reply_count: number;
+  views: number;
+  like_count: number;
+  created_at: string;
+  last_posted_at: string | null;
+  pinned: boolean;
+  closed: boolean;
+  [key: string]: any;
+}
+
+interface DiscourseTopicDetail extends DiscourseTopic {
+  chunk_size: number;
+  post_stream: {
+    posts: Array<{
+      id: number;
+      post_number: number;
+      username: string;
+      name: string | null;
+      avatar_template: string;
+      cooked: string;
+      created_at: string;
+      reply_to_post_number: number | null;
+    }>;
+  };
+}
+
+interface DiscourseUser {
+  id: number;
+  username: string;
+  name: string | null;
+  avatar_template: string;
+  title: string | null;
+  bio_excerpt?: string;
+  trust_level: number;
+  created_at: string;
+  last_posted_at: string | null;
+  [key: string]: any;
+}
+
+// The Discourse identity a write is performed as
+interface DiscourseActor {
+  username: string;
+  userApiKey: string;
+}
+
+// How long a Discourse request may take and how it is retried
+interface DiscourseRequestPolicy {
+  timeoutMs: number;
+  // Extra attempts for reads after a timeout, network error or 5xx
+  maxRetries: number;
+  retryBaseMs: number;
+  // A 429 asking for a longer wait is reported rather than waited out
+  maxRetryAfterSeconds: number;
+}
+
 class DiscourseClient {
+  private log = logger.child({ component: "DiscourseClient" });
+
   constructor(
     private baseUrl: string,
     private systemApiKey: string,
-    private systemUsername: string
+    private impersonateUsers: boolean,
+    private policy: DiscourseRequestPolicy,
+    readonly breaker: CircuitBreaker
   ) {}
 
+  // Writes use the user's own User API key, so Discourse applies their trust
+  // level and rate limits. Impersonation needs an admin system key.
+  private actorHeaders(actor: DiscourseActor): Record<string, string> {
+    if (this.impersonateUsers) {
+      return {
+        "Api-Key": this.systemApiKey,
+        "Api-Username": actor.username,
+      };
+    }
+    return { "User-Api-Key": actor.userApiKey };
+  }
+
+  // Which key a failed write was refused for
+  private actorCredential(): "user" | "system" {
+    return this.impersonateUsers ? "system" : "user";
+  }
+
+  /**
+   * Every call to Discourse goes through here. Reads are retried with
+   * backoff after timeouts, network errors and 5xx responses; any request
+   * refused with a 429 is retried once its `Retry-After` has passed, if that
+   * is soon enough. Writes are never retried otherwise, since Discourse may
+   * have applied them before failing.
+   */
+  private async send(
+    operation: string,
+    path: string,
+    init: RequestInit = {}
+  ): Promise<Response> {
+    const idempotent = (init.method ?? "GET") === "GET";
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < this.policy.maxRetries;
+      const openFor = this.breaker.acquire();
+      if (openFor > 0) {
+        throw new DiscourseUnavailableError(
+          "Discourse is failing; requests are paused",
+          openFor
+        );
+      }
+
+      let response: Response;
+      try {
+        response = await this.attempt(operation, path, init);
+      } catch (error) {
+        this.breaker.recordFailure();
+        if (idempotent && canRetry) {
+          await this.retryAfter(operation, "error", attempt);
+          continue;
+        }
+        throw error;
+      }
+
+      if (response.status >= 500) {
+        this.breaker.recordFailure();
+        if (idempotent && canRetry) {
+          await response.body?.cancel();
+          await this.retryAfter(operation, "server_error", attempt);
+          continue;
+        }
+        return response;
+      }
+      this.breaker.recordSuccess();
+
+      if (response.status === 429 && canRetry) {
+        const wait = retryAfterSeconds(response);
+        if (wait !== undefined && wait <= this.policy.maxRetryAfterSeconds) {
+          await response.body?.cancel();
+          await this.retryAfter(operation, "rate_limited", attempt, wait);
+          continue;
+        }
+      }
+      return response;
+    }
+  }
+
+  // A single timed request; failures to get any response are rethrown as
+  // DiscourseUnavailableError
+  private async attempt(
+    operation: string,
+    path: string,
+    init: RequestInit
+  ): Promise<Response> {
+    const stopTimer = discourseRequestDuration.startTimer({ operation });
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        ...init,
+        signal: AbortSignal.timeout(this.policy.timeoutMs),
+      });
+      discourseRequestsTotal.inc({
+        operation,
+        status: String(response.status),
+      });
+      return response;
+    } catch (error: any) {
+      discourseRequestsTotal.inc({ operation, status: "error" });
+      throw new DiscourseUnavailableError(
+        error.name === "TimeoutError"
+          ? `Discourse did not respond within ${this.policy.timeoutMs}ms`
+          : `Could not reach Discourse: ${error.message}`
+      );
+    } finally {
+      const seconds = stopTimer();
+      this.log.debug("Discourse request", { operation, path, seconds });
+    }
+  }
+
+  private async retryAfter(
+    operation: string,
+    reason: string,
+    attempt: number,
+    waitSeconds?: number
+  ): Promise<void> {
+    const delayMs =
+      waitSeconds !== undefined
+        ? waitSeconds * 1000 + backoffDelay(0, this.policy.retryBaseMs)
+        : backoffDelay(attempt, this.policy.retryBaseMs);
+    discourseRetriesTotal.inc({ operation, reason });
+    this.log.info("Retrying Discourse request", {
+      operation,
+      reason,
+      attempt: attempt + 1,
+      delayMs: Math.round(delayMs),
+    });
+    await sleep(delayMs);
+  }
+
+  // Public reads carry no credentials: callers see what an anonymous
+  // visitor would, never private categories or messages
+  private async getJson<T>(operation: string, path: string): Promise<T> {
+    const response = await this.send(operation, path, {
+      headers: { Accept: "application/json" },
+    });
+
+    if (!response.ok) {
+      throw await discourseErrorFromResponse(response, "anonymous");
+    }
+
+    return (await response.json()) as T;
+  }
+
+  async listCategories(): Promise<DiscourseCategory[]> {
+    const data = await this.getJson<{
+      category_list: { categories: DiscourseCategory[] };
+    }>("listCategories", "/categories.json?include_subcategories=true");
+    return data.category_list.categories;
+  }
+
+  async getLatestTopics(params: {
+    categoryId?: number;
+    page: number;
+  }): Promise<{ topics: DiscourseTopic[]; hasMore: boolean }> {
+    const path = params.categoryId
+      ? `/c/${params.categoryId}/l/latest.json`
+      : "/latest.json";
+    const data = await this.getJson<{
+      topic_list: { topics: DiscourseTopic[]; more_topics_url?: string };
+    }>("getLatestTopics", `${path}?page=${params.page}`);
+    return {
+      topics: data.topic_list.topics,
+      hasMore: Boolean(data.topic_list.more_topics_url),
+    };
+  }
+
+  // Discourse pages topic posts from 1, in chunks of `chunk_size`
+  async getTopic(topicId: number, page: number): Promise<DiscourseTopicDetail> {
+    return this.getJson<DiscourseTopicDetail>(
+      "getTopic",
+      `/t/${topicId}.json?page=${page + 1}`
+    );
+  }
+
+  async getUser(username: string): Promise<DiscourseUser> {
+    const data = await this.getJson<{ user: DiscourseUser }>(
+      "getUser",
+      `/u/${encodeURIComponent(username)}.json`
+    );
+    return data.user;
+  }
+
   getUserApiAuthUrl(params: {
     clientId: string;
     applicationName: string;
     nonce: string;
     publicKey: string;
     scopes: string[];
+    authRedirect?: string;
   }): string {
     // URL encode the public key manually
     const publicKeyEncoded = encodeURIComponent(params.publicKey);
@@ -118,6 +1056,9 @@ class DiscourseClient {
       `nonce=${encodeURIComponent(params.nonce)}`,
       `scopes=${encodeURIComponent(params.scopes.join(","))}`,
       `public_key=${publicKeyEncoded}`,
+      ...(params.authRedirect
+        ? [`auth_redirect=${encodeURIComponent(params.authRedirect)}`]
+        : []),
     ].join("&");
 
     return `${this.baseUrl}/user-api-key/new?${queryParams}`;
@@ -129,39 +1070,97 @@ class DiscourseClient {
     name: string;
     [key: string]: any;
   }> {
-    const response = await fetch(`${this.baseUrl}/session/current.json`, {
-      headers: {
-        "User-Api-Key": userApiKey,
-      },
-    });
+    const response = await this.send(
+      "getCurrentUser",
+      "/session/current.json",
+      {
+        headers: {
+          "User-Api-Key": userApiKey,
+        },
+      }
+    );
 
     if (!response.ok) {
-      const error = await response.text();
-      throw new Error(
-        `Failed to get current user: ${response.status} - ${error}`
-      );
+      throw await discourseErrorFromResponse(response, "user");
     }
 
     const data = await response.json();
     return (data as { current_user: any }).current_user;
   }
 
+  /**
+   * Returns who a User API key belongs to, or null if Discourse no longer
+   * accepts it. Other failures throw, since they say nothing about the key.
+   */
+  async checkUserApiKey(
+    userApiKey: string
+  ): Promise<{ id: number; username: string } | null> {
+    const response = await this.send(
+      "checkUserApiKey",
+      "/session/current.json",
+      {
+        headers: {
+          "User-Api-Key": userApiKey,
+        },
+      }
+    );
+
+    // 404 means the key resolved to no user (e.g. the user was deactivated)
+    if ([401, 403, 404].includes(response.status)) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw await discourseErrorFromResponse(response, "user");
+    }
+
+    const data = (await response.json()) as {
+      current_user: { id: number; username: string };
+    };
+    return data.current_user;
+  }
+
+  /**
+   * Revokes a User API key. Keys Discourse no longer accepts count as
+   * revoked; any other failure throws so the caller can keep the linkage.
+   */
+  async revokeUserApiKey(userApiKey: string): Promise<void> {
+    const response = await this.send(
+      "revokeUserApiKey",
+      "/user-api-key/revoke",
+      {
+        method: "POST",
+        headers: {
+          "User-Api-Key": userApiKey,
+        },
+      }
+    );
+
+    if (response.status === 401 || response.status === 403) {
+      this.log.info("User API key was already invalid");
+      return;
+    }
+
+    if (!response.ok) {
+      throw await discourseErrorFromResponse(response, "user");
+    }
+  }
+
   async createPost(params: {
     title: string;
     raw: string;
     category?: number;
-    username: string;
+    actor: DiscourseActor;
   }): Promise<{
     id: number;
     topic_id: number;
     topic_slug: string;
     [key: string]: any;
   }> {
-    const response = await fetch(`${this.baseUrl}/posts.json`, {
+    const response = await this.send("createPost", "/posts.json", {
       method: "POST",
       headers: {
-        "Api-Key": this.systemApiKey,
-        "Api-Username": params.username,
+        ...this.actorHeaders(params.actor),
         "Content-Type": "application/json",
       },
       body: JSON.stringify({
@@ -171,434 +1170,2472 @@ class DiscourseClient {
       }),
     });
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Discourse API error: ${response.status} - ${error}`);
+    if (!response.ok) {
+      throw await discourseErrorFromResponse(response, this.actorCredential());
+    }
+
+    return (await response.json()) as {
+      id: number;
+      topic_id: number;
+      topic_slug: string;
+      [key: string]: any;
+    };
+  }
+
+  async replyToTopic(params: {
+    topicId: number;
+    raw: string;
+    replyToPostNumber?: number;
+    actor: DiscourseActor;
+  }): Promise<DiscoursePost> {
+    const response = await this.send("replyToTopic", "/posts.json", {
+      method: "POST",
+      headers: {
+        ...this.actorHeaders(params.actor),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        topic_id: params.topicId,
+        raw: params.raw,
+        reply_to_post_number: params.replyToPostNumber,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await discourseErrorFromResponse(response, this.actorCredential());
+    }
+
+    return (await response.json()) as DiscoursePost;
+  }
+
+  async getPost(postId: number, actor: DiscourseActor): Promise<DiscoursePost> {
+    const response = await this.send("getPost", `/posts/${postId}.json`, {
+      headers: this.actorHeaders(actor),
+    });
+
+    if (!response.ok) {
+      throw await discourseErrorFromResponse(response, this.actorCredential());
+    }
+
+    return (await response.json()) as DiscoursePost;
+  }
+
+  async editPost(params: {
+    postId: number;
+    raw: string;
+    editReason?: string;
+    actor: DiscourseActor;
+  }): Promise<DiscoursePost> {
+    const response = await this.send(
+      "editPost",
+      `/posts/${params.postId}.json`,
+      {
+        method: "PUT",
+        headers: {
+          ...this.actorHeaders(params.actor),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          post: {
+            raw: params.raw,
+            edit_reason: params.editReason,
+          },
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw await discourseErrorFromResponse(response, this.actorCredential());
+    }
+
+    const data = (await response.json()) as { post: DiscoursePost };
+    return data.post;
+  }
+
+  async deletePost(params: {
+    postId: number;
+    actor: DiscourseActor;
+  }): Promise<void> {
+    const response = await this.send(
+      "deletePost",
+      `/posts/${params.postId}.json`,
+      {
+        method: "DELETE",
+        headers: this.actorHeaders(params.actor),
+      }
+    );
+
+    if (!response.ok) {
+      throw await discourseErrorFromResponse(response, this.actorCredential());
+    }
+  }
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+// User API keys are sealed with SecretBox before they reach the backend
+class LinkageStore {
+  private log = logger.child({ component: "LinkageStore" });
+
+  constructor(private storage: StorageBackend, private secretBox: SecretBox) {}
+
+  async set(nearAccount: string, linkage: Linkage) {
+    await this.storage.setLinkage({
+      ...linkage,
+      nearAccount,
+      userApiKey: this.secretBox.seal(linkage.userApiKey),
+    });
+    this.log.debug("Stored linkage", {
+      nearAccount,
+      discourseUsername: linkage.discourseUsername,
+    });
+  }
+
+  async get(nearAccount: string): Promise<Linkage | null> {
+    const linkage = await this.storage.getLinkage(nearAccount);
+    this.log.debug("Looked up linkage", { nearAccount, found: !!linkage });
+    return linkage ? this.unseal(linkage) : null;
+  }
+
+  async delete(nearAccount: string): Promise<boolean> {
+    const deleted = await this.storage.deleteLinkage(nearAccount);
+    this.log.debug("Deleted linkage", { nearAccount, deleted });
+    return deleted;
+  }
+
+  /**
+   * Makes `linkage` the only primary account of its Discourse user.
+   * Returns the account that was primary before, if it was another one.
+   */
+  async setPrimary(linkage: Linkage): Promise<string | undefined> {
+    let previous: string | undefined;
+    for (const sibling of await this.findByDiscourseUserId(
+      linkage.discourseUserId
+    )) {
+      if (sibling.isPrimary && sibling.nearAccount !== linkage.nearAccount) {
+        previous = sibling.nearAccount;
+        await this.set(sibling.nearAccount, { ...sibling, isPrimary: false });
+      }
+    }
+    if (!linkage.isPrimary) {
+      await this.set(linkage.nearAccount, { ...linkage, isPrimary: true });
+    }
+    return previous;
+  }
+
+  // After an account leaves a Discourse user, promotes the earliest
+  // remaining one if the primary was among those that left
+  async ensurePrimary(discourseUserId: number): Promise<void> {
+    const siblings = await this.findByDiscourseUserId(discourseUserId);
+    if (
+      siblings.length === 0 ||
+      siblings.some((sibling) => sibling.isPrimary)
+    ) {
+      return;
+    }
+    const earliest = siblings.reduce((a, b) =>
+      a.verifiedAt <= b.verifiedAt ? a : b
+    );
+    await this.set(earliest.nearAccount, { ...earliest, isPrimary: true });
+    this.log.info("Promoted primary account", {
+      nearAccount: earliest.nearAccount,
+      discourseUserId,
+    });
+  }
+
+  async getMany(nearAccounts: string[]): Promise<Linkage[]> {
+    const linkages = await this.storage.getLinkages(nearAccounts);
+    this.log.debug("Looked up linkages", {
+      requested: nearAccounts.length,
+      found: linkages.length,
+    });
+    return linkages.map((linkage) => this.unseal(linkage));
+  }
+
+  async findByDiscourseUsername(username: string): Promise<Linkage[]> {
+    const linkages = await this.storage.listLinkagesByDiscourseUsername(
+      username
+    );
+    return linkages.map((linkage) => this.unseal(linkage));
+  }
+
+  async findByDiscourseUserId(discourseUserId: number): Promise<Linkage[]> {
+    const linkages = await this.storage.listLinkagesByDiscourseUserId(
+      discourseUserId
+    );
+    return linkages.map((linkage) => this.unseal(linkage));
+  }
+
+  async getAll(): Promise<Linkage[]> {
+    const linkages = await this.storage.listLinkages();
+    return linkages.map((linkage) => this.unseal(linkage));
+  }
+
+  // Re-wraps keys sealed under a previous master secret (or not at all)
+  async rotateKeys(): Promise<number> {
+    let rotated = 0;
+    for (const linkage of await this.storage.listLinkages()) {
+      if (this.secretBox.needsRewrap(linkage.userApiKey)) {
+        await this.storage.setLinkage({
+          ...linkage,
+          userApiKey: this.secretBox.rewrap(linkage.userApiKey),
+        });
+        rotated++;
+      }
+    }
+    if (rotated > 0) {
+      this.log.info("Re-encrypted User API keys", { count: rotated });
+    }
+    return rotated;
+  }
+
+  private unseal(linkage: Linkage): Linkage {
+    return { ...linkage, userApiKey: this.secretBox.open(linkage.userApiKey) };
+  }
+}
+
+// ============================================================================
+// NONCE MANAGER (with private key storage)
+// ============================================================================
+
+// Only the hash is stored, so the verifier can't be read back out of storage
+function stateHash(verifier: string): string {
+  return createHash("sha256").update(verifier).digest("hex");
+}
+
+function matchesState(nonceData: NonceData, verifier: string | undefined) {
+  if (!nonceData.stateHash || !verifier) {
+    return false;
+  }
+  return timingSafeEqual(
+    Buffer.from(stateHash(verifier)),
+    Buffer.from(nonceData.stateHash)
+  );
+}
+
+class NonceManager {
+  private readonly NONCE_TTL = 10 * 60 * 1000; // 10 minutes
+  private log = logger.child({ component: "NonceManager" });
+
+  constructor(private storage: StorageBackend, private secretBox: SecretBox) {}
+
+  async create(params: {
+    clientId: string;
+    privateKey: string;
+    scopes: string[];
+    authRedirect?: string;
+    stateVerifier?: string;
+  }): Promise<string> {
+    const nonce = randomBytes(32).toString("hex");
+
+    await this.storage.setNonce({
+      nonce,
+      clientId: params.clientId,
+      privateKey: this.secretBox.seal(params.privateKey),
+      scopes: params.scopes,
+      timestamp: Date.now(),
+      authRedirect: params.authRedirect,
+      stateHash: params.stateVerifier && stateHash(params.stateVerifier),
+    });
+
+    this.log.debug("Created nonce", { noncePrefix: nonce.substring(0, 8) });
+    return nonce;
+  }
+
+  // Returns the pending auth request with its private key unsealed
+  async get(nonce: string): Promise<NonceData | null> {
+    const data = await this.storage.getNonce(nonce);
+
+    if (!data) {
+      this.log.debug("Nonce not found", { noncePrefix: nonce.substring(0, 8) });
+      return null;
+    }
+
+    if (Date.now() - data.timestamp > this.NONCE_TTL) {
+      await this.storage.deleteNonce(nonce);
+      this.log.debug("Nonce expired", { noncePrefix: nonce.substring(0, 8) });
+      return null;
+    }
+
+    return { ...data, privateKey: this.secretBox.open(data.privateKey) };
+  }
+
+  // Returns false when the nonce is gone or already has a signature, which
+  // is never replaced
+  async attachAuthToken(nonce: string, authToken: string): Promise<boolean> {
+    const data = await this.storage.getNonce(nonce);
+    if (!data || data.authToken) {
+      return false;
     }
 
-    return (await response.json()) as {
-      id: number;
-      topic_id: number;
-      topic_slug: string;
-      [key: string]: any;
-    };
+    await this.storage.setNonce({ ...data, authToken });
+    this.log.debug("Attached signature", {
+      noncePrefix: nonce.substring(0, 8),
+    });
+    return true;
+  }
+
+  async pendingCount(): Promise<number> {
+    return this.storage.countNonces();
+  }
+
+  async consume(nonce: string): Promise<void> {
+    await this.storage.deleteNonce(nonce);
+    this.log.debug("Consumed nonce", { noncePrefix: nonce.substring(0, 8) });
+  }
+
+  async cleanup(): Promise<void> {
+    const cleaned = await this.storage.deleteNoncesBefore(
+      Date.now() - this.NONCE_TTL
+    );
+    if (cleaned > 0) {
+      this.log.info("Cleaned up expired nonces", { count: cleaned });
+    }
   }
 }
 
 // ============================================================================
-// STORAGE
+// LINKAGE HEALTH
 // ============================================================================
 
-interface Linkage {
-  nearAccount: string;
-  discourseUsername: string;
-  discourseUserId: number;
-  userApiKey: string; // Store the User API key for this user
-  verifiedAt: string;
-}
+// Statuses whose User API key may still be used to act on Discourse
+const WRITABLE_STATUSES: LinkageStatus[] = ["active", "username_changed"];
 
-class LinkageStore {
-  private linkages = new Map<string, Linkage>();
+// Re-checks every stored User API key, since Discourse doesn't report keys
+// revoked from the user's profile
+class LinkageHealthChecker {
+  private log = logger.child({ component: "LinkageHealth" });
 
-  set(nearAccount: string, linkage: Linkage) {
-    this.linkages.set(nearAccount, linkage);
-    console.log(
-      `[LinkageStore] Stored: ${nearAccount} → ${linkage.discourseUsername}`
-    );
-  }
+  constructor(
+    private linkageStore: LinkageStore,
+    private discourseClient: DiscourseClient
+  ) {}
 
-  get(nearAccount: string): Linkage | null {
-    const linkage = this.linkages.get(nearAccount) || null;
-    console.log(
-      `[LinkageStore] Get ${nearAccount}:`,
-      linkage ? "Found" : "Not found"
-    );
-    return linkage;
-  }
+  async run(): Promise<void> {
+    let revoked = 0;
+    let renamed = 0;
+
+    for (const linkage of await this.linkageStore.getAll()) {
+      // Suspended users' keys are refused until the suspension ends
+      if (linkage.status === "revoked" || linkage.status === "suspended") {
+        continue;
+      }
+
+      let user;
+      try {
+        user = await this.discourseClient.checkUserApiKey(linkage.userApiKey);
+      } catch (error: any) {
+        this.log.warn("Could not check User API key", {
+          nearAccount: linkage.nearAccount,
+          error,
+        });
+        continue;
+      }
+
+      if (!user) {
+        await this.linkageStore.set(linkage.nearAccount, {
+          ...linkage,
+          status: "revoked",
+        });
+        revoked++;
+      } else if (user.username !== linkage.discourseUsername) {
+        await this.linkageStore.set(linkage.nearAccount, {
+          ...linkage,
+          discourseUsername: user.username,
+          status: "username_changed",
+        });
+        renamed++;
+      }
+    }
 
-  getAll(): Linkage[] {
-    return Array.from(this.linkages.values());
+    if (revoked > 0 || renamed > 0) {
+      this.log.info("Updated linkage statuses", { revoked, renamed });
+    }
   }
 }
 
 // ============================================================================
-// NONCE MANAGER (with private key storage)
+// RESPONSE MAPPING
 // ============================================================================
 
-interface NonceData {
-  nonce: string;
-  clientId: string;
-  privateKey: string;
-  timestamp: number;
+function toLinkageSummary(linkage: Linkage) {
+  return {
+    nearAccount: linkage.nearAccount,
+    discourseUsername: linkage.discourseUsername,
+    discourseUserId: linkage.discourseUserId,
+    scopes: linkage.scopes,
+    status: linkage.status,
+    isPrimary: linkage.isPrimary,
+    verifiedAt: linkage.verifiedAt,
+  };
 }
 
-class NonceManager {
-  private nonces = new Map<string, NonceData>();
-  private readonly NONCE_TTL = 10 * 60 * 1000; // 10 minutes
+function avatarUrl(baseUrl: string, template: string, size = 120): string {
+  const path = template.replace("{size}", String(size));
+  return path.startsWith("http") ? path : `${baseUrl}${path}`;
+}
 
-  create(clientId: string, privateKey: string): string {
-    const nonce = randomBytes(32).toString("hex");
+function toCategory(category: DiscourseCategory) {
+  return {
+    id: category.id,
+    name: category.name,
+    slug: category.slug,
+    color: category.color,
+    description: category.description_text ?? null,
+    topicCount: category.topic_count,
+    postCount: category.post_count,
+    parentCategoryId: category.parent_category_id ?? null,
+  };
+}
 
-    this.nonces.set(nonce, {
-      nonce,
-      clientId,
-      privateKey,
-      timestamp: Date.now(),
-    });
+function toTopicSummary(baseUrl: string, topic: DiscourseTopic) {
+  return {
+    id: topic.id,
+    title: topic.title,
+    slug: topic.slug,
+    categoryId: topic.category_id ?? null,
+    postsCount: topic.posts_count,
+    replyCount: topic.reply_count ?? 0,
+    views: topic.views ?? 0,
+    likeCount: topic.like_count ?? 0,
+    createdAt: topic.created_at,
+    lastPostedAt: topic.last_posted_at ?? null,
+    pinned: Boolean(topic.pinned),
+    closed: Boolean(topic.closed),
+    url: `${baseUrl}/t/${topic.slug}/${topic.id}`,
+  };
+}
 
-    console.log(`[NonceManager] Created nonce: ${nonce.substring(0, 8)}...`);
-    return nonce;
-  }
+function toUserProfile(baseUrl: string, user: DiscourseUser) {
+  return {
+    id: user.id,
+    username: user.username,
+    name: user.name ?? null,
+    avatarUrl: avatarUrl(baseUrl, user.avatar_template),
+    title: user.title ?? null,
+    bioExcerpt: user.bio_excerpt ?? null,
+    trustLevel: user.trust_level,
+    createdAt: user.created_at,
+    lastPostedAt: user.last_posted_at ?? null,
+    profileUrl: `${baseUrl}/u/${user.username}`,
+  };
+}
 
-  verify(nonce: string, clientId: string): boolean {
-    const data = this.nonces.get(nonce);
+// ============================================================================
+// REDIRECTS
+// ============================================================================
 
-    if (!data) {
-      console.log(
-        `[NonceManager] Nonce not found: ${nonce.substring(0, 8)}...`
+// An allowlist entry matches URLs on the same origin at or below its path,
+// on a segment boundary: "/linked" allows "/linked/done", not "/linked-evil"
+function isAllowedRedirect(url: string, allowed: string[]): boolean {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return false;
+  }
+  if (target.protocol !== "https:" && target.protocol !== "http:") {
+    return false;
+  }
+  return allowed.some((entry) => {
+    try {
+      const prefix = new URL(entry);
+      const directory = prefix.pathname.endsWith("/")
+        ? prefix.pathname
+        : `${prefix.pathname}/`;
+      return (
+        target.origin === prefix.origin &&
+        (target.pathname === prefix.pathname ||
+          target.pathname.startsWith(directory))
       );
+    } catch {
       return false;
     }
+  });
+}
 
-    if (Date.now() - data.timestamp > this.NONCE_TTL) {
-      this.nonces.delete(nonce);
-      console.log(`[NonceManager] Nonce expired: ${nonce.substring(0, 8)}...`);
-      return false;
+function withQuery(
+  url: string,
+  params: Record<string, string | undefined>,
+  fragment?: Record<string, string>
+): string {
+  const target = new URL(url);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      target.searchParams.set(key, value);
     }
+  }
+  if (fragment) {
+    target.hash = new URLSearchParams(fragment).toString();
+  }
+  return target.toString();
+}
 
-    if (data.clientId !== clientId) {
-      console.log(`[NonceManager] Client ID mismatch for nonce`);
-      return false;
-    }
+// ============================================================================
+// ERRORS
+// ============================================================================
 
-    return true;
-  }
+// What a Discourse request was about, for the error reported to the caller
+interface DiscourseTarget {
+  action: string;
+  resource: string;
+  resourceId?: string | number;
+}
+
+// The slice of a handler's `errors` that Discourse failures map onto
+interface DiscourseFailureErrors {
+  DISCOURSE_VALIDATION(options: {
+    message: string;
+    data: { errors: string[] };
+  }): Error;
+  DISCOURSE_AUTH_REVOKED(options: { message: string; data: {} }): Error;
+  FORBIDDEN(options: {
+    message: string;
+    data: { requiredPermissions: string[]; action: string };
+  }): Error;
+  NOT_FOUND(options: {
+    message: string;
+    data: { resource: string; resourceId: string };
+  }): Error;
+  RATE_LIMITED(options: {
+    message: string;
+    data: { retryAfter: number };
+  }): Error;
+  SERVICE_UNAVAILABLE(options: { message: string; data: {} }): Error;
+}
 
-  getPrivateKey(nonce: string): string | null {
-    const data = this.nonces.get(nonce);
-    return data?.privateKey || null;
+/**
+ * Maps a typed Discourse failure onto the contract error every route reports
+ * it with. Discourse's own messages are passed through, since they are
+ * already written for end users.
+ */
+function toContractError(
+  errors: DiscourseFailureErrors,
+  error: DiscourseApiError,
+  target: DiscourseTarget
+): Error {
+  if (error instanceof DiscourseValidationError) {
+    return errors.DISCOURSE_VALIDATION({
+      message: error.message,
+      data: { errors: error.errors },
+    });
+  }
+  if (error instanceof DiscourseAuthRevokedError) {
+    return errors.DISCOURSE_AUTH_REVOKED({
+      message:
+        "Discourse no longer accepts this account's User API key. Please link it again.",
+      data: {},
+    });
+  }
+  if (error instanceof DiscoursePermissionError) {
+    return errors.FORBIDDEN({
+      message: error.message,
+      data: { requiredPermissions: ["discourse"], action: target.action },
+    });
+  }
+  if (error instanceof DiscourseNotFoundError) {
+    return errors.NOT_FOUND({
+      message: `Discourse has no such ${target.resource}`,
+      data: {
+        resource: target.resource,
+        resourceId: String(target.resourceId ?? ""),
+      },
+    });
   }
+  if (error instanceof DiscourseRateLimitError) {
+    return errors.RATE_LIMITED({
+      message: `Discourse rate limit reached, retry in ${error.waitSeconds}s`,
+      data: { retryAfter: error.waitSeconds },
+    });
+  }
+  return errors.SERVICE_UNAVAILABLE({
+    message: `Discourse request failed: ${error.message}`,
+    data: {},
+  });
+}
+
+// The slice of a handler's `errors` a failed signed write maps onto
+interface SignedWriteErrors extends DiscourseFailureErrors, RateLimitErrors {
+  UNAUTHORIZED(options: {
+    message: string;
+    data: { apiKeyProvided: boolean; authType: "token" };
+  }): Error;
+}
 
-  consume(nonce: string): void {
-    this.nonces.delete(nonce);
-    console.log(`[NonceManager] Consumed nonce: ${nonce.substring(0, 8)}...`);
+// Reports whatever a signed write threw as a contract error: contract errors
+// pass through, a bad token is UNAUTHORIZED and Discourse failures are mapped
+// against `target`
+function toSignedWriteError(
+  errors: SignedWriteErrors,
+  error: unknown,
+  target?: DiscourseTarget
+): unknown {
+  if (error && typeof error === "object" && "code" in error) {
+    return error;
+  }
+  if (error instanceof AuthTokenError) {
+    return errors.UNAUTHORIZED({
+      message: error.message,
+      data: { apiKeyProvided: true, authType: "token" },
+    });
+  }
+  if (target && error instanceof DiscourseApiError) {
+    return toContractError(errors, error, target);
   }
+  return error;
+}
 
-  cleanup(): void {
-    const now = Date.now();
-    let cleaned = 0;
-    for (const [nonce, data] of this.nonces.entries()) {
-      if (now - data.timestamp > this.NONCE_TTL) {
-        this.nonces.delete(nonce);
-        cleaned++;
-      }
-    }
-    if (cleaned > 0) {
-      console.log(`[NonceManager] Cleaned up ${cleaned} expired nonces`);
+// Awaits a Discourse request, reporting its failures as contract errors
+async function fromDiscourse<T>(
+  errors: DiscourseFailureErrors,
+  target: DiscourseTarget,
+  request: Promise<T>
+): Promise<T> {
+  try {
+    return await request;
+  } catch (error) {
+    if (error instanceof DiscourseApiError) {
+      throw toContractError(errors, error, target);
     }
+    throw error;
   }
 }
 
 // ============================================================================
-// PLUGIN
+// RATE LIMITS
 // ============================================================================
 
-export default createPlugin({
-  id: "discourse-near",
-  contract,
-
-  variables: z.object({
-    discourseBaseUrl: z.string().url(),
-    discourseApiUsername: z.string().default("system"),
-    applicationName: z.string().default("NEAR Account Link"),
-    clientId: z.string().default("discourse-near-plugin"),
-    recipient: z.string().default("social.near"),
-  }),
-
-  secrets: z.object({
-    discourseApiKey: z.string().min(1),
-  }),
-
-  initialize: (config) =>
-    Effect.gen(function* () {
-      console.log("[Plugin] Initializing...");
-      console.log(
-        `[Plugin] Discourse URL: ${config.variables.discourseBaseUrl}`
-      );
-      console.log(`[Plugin] Application: ${config.variables.applicationName}`);
+const generateRsaKeyPair = promisify(generateKeyPair);
+
+// Requests per window and client IP for individual routes, on top of the
+// overall per-IP limit; overridable with the `routeRateLimits` variable
+const DEFAULT_ROUTE_LIMITS: Record<string, number> = {
+  getUserApiAuthUrl: 10,
+  submitLinkSignature: 10,
+  completeLink: 10,
+  createPost: 10,
+  replyToTopic: 20,
+  editPost: 20,
+  deletePost: 10,
+  unlink: 5,
+  setPrimaryAccount: 5,
+  adminListLinkages: 30,
+  adminExportLinkages: 5,
+  adminForceUnlink: 30,
+  getAuditHistory: 30,
+};
+
+// The slice of a handler's `errors` the rate limiter throws with
+interface RateLimitErrors {
+  TOO_MANY_REQUESTS(options: {
+    message: string;
+    data: { retryAfter: number; limit: number; scope: RateLimitScope };
+  }): Error;
+}
 
-      const discourseClient = new DiscourseClient(
-        config.variables.discourseBaseUrl,
-        config.secrets.discourseApiKey,
-        config.variables.discourseApiUsername
-      );
+// ============================================================================
+// ADMIN
+// ============================================================================
 
-      const linkageStore = new LinkageStore();
-      const nonceManager = new NonceManager();
+// Compares digests so neither the key nor its length leaks through timing
+function isAdminKey(provided: string, expected: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(provided), digest(expected));
+}
 
-      yield* Effect.forkScoped(
-        Effect.gen(function* () {
-          while (true) {
-            yield* Effect.sleep("5 minutes");
-            nonceManager.cleanup();
-          }
-        })
-      );
+function filterLinkages(
+  linkages: Linkage[],
+  filters: LinkageFilters
+): Linkage[] {
+  const prefix = filters.usernamePrefix?.toLowerCase();
+  return linkages
+    .filter(
+      (linkage) =>
+        (!filters.status || linkage.status === filters.status) &&
+        (!prefix ||
+          linkage.discourseUsername.toLowerCase().startsWith(prefix)) &&
+        (!filters.linkedAfter ||
+          Date.parse(linkage.verifiedAt) >= Date.parse(filters.linkedAfter)) &&
+        (!filters.linkedBefore ||
+          Date.parse(linkage.verifiedAt) < Date.parse(filters.linkedBefore))
+    )
+    .sort((a, b) => (a.verifiedAt < b.verifiedAt ? -1 : 1));
+}
 
-      console.log("[Plugin] Initialized successfully");
+const CSV_COLUMNS = [
+  "nearAccount",
+  "discourseUsername",
+  "discourseUserId",
+  "status",
+  "isPrimary",
+  "scopes",
+  "clientId",
+  "verifiedAt",
+] as const;
+
+function csvField(value: unknown): string {
+  const text = Array.isArray(value) ? value.join(" ") : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
 
-      return {
-        discourseClient,
-        linkageStore,
-        nonceManager,
-        applicationName: config.variables.applicationName,
-        clientId: config.variables.clientId,
-        baseUrl: config.variables.discourseBaseUrl,
-        recipient: config.variables.recipient,
-      };
+function toCsv(linkages: Linkage[]): string {
+  const rows = linkages.map((linkage) =>
+    CSV_COLUMNS.map((column) => csvField(linkage[column])).join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+// ============================================================================
+// PLUGIN
+// ============================================================================
+
+// Given in code rather than as variables: the runtime round-trips config
+// through JSON, which would strip the methods off an object
+export interface DiscoursePluginOptions {
+  // In-process key lookup used instead of `nearRpcUrl`, e.g. a local double
+  // in tests; with it, signed routes need no network at all
+  accessKeyResolver?: AccessKeyResolver;
+}
+
+export function createDiscoursePlugin(options: DiscoursePluginOptions = {}) {
+  return createPlugin({
+    id: "discourse-near",
+    contract,
+
+    variables: z.object({
+      discourseBaseUrl: z.string().url(),
+      // Registered client applications. When empty, a single client is
+      // registered from `clientId`, `applicationName` and `allowedRedirects`.
+      clients: z.array(ClientAppSchema).default([]),
+      applicationName: z.string().default("NEAR Account Link"),
+      clientId: z.string().default("discourse-near-plugin"),
+      recipient: z.string().default("social.near"),
+      // Which NEAR access keys may sign: full-access only, or also
+      // function-call keys scoped to one of `functionCallContracts`
+      keyPolicy: z
+        .enum(["full-access", "function-call"])
+        .default("full-access"),
+      functionCallContracts: z.array(z.string()).default([]),
+      // Double-check signing keys against chain state via `nearRpcUrl`
+      // (always on for the function-call policy, which needs the receiver)
+      verifyKeysOnChain: z.boolean().default(false),
+      nearRpcUrl: z.string().url().default("https://rpc.mainnet.near.org"),
+      // Post via the system key + Api-Username instead of the user's own key
+      impersonateUsers: z.boolean().default(false),
+      // Public URL of the server's /auth/callback, used as Discourse's
+      // auth_redirect when a client asks for the browser redirect flow
+      callbackUrl: z.string().url().optional(),
+      // Redirects for the default client (origin + path prefix)
+      allowedRedirects: z.array(z.string().url()).default([]),
+      // How often stored User API keys are re-checked on Discourse; 0 disables
+      linkageCheckIntervalMinutes: z.number().int().min(0).default(60),
+      // How many NEAR accounts one Discourse user may link
+      maxAccountsPerDiscourseUser: z.number().int().min(1).default(5),
+      // Requests per window; 0 disables a limit. Per-IP limits need the HTTP
+      // server to pass the client IP.
+      rateLimitWindowSeconds: z.number().int().min(1).default(60),
+      rateLimitPerIp: z.number().int().min(0).default(120),
+      rateLimitPerAccount: z.number().int().min(0).default(30),
+      routeRateLimits: z
+        .record(z.string(), z.number().int().min(0))
+        .default({}),
+      // Auth requests awaiting Discourse's callback, across all clients
+      maxPendingNonces: z.number().int().min(1).default(1000),
+      // Per-attempt timeout for Discourse requests, and how reads are retried
+      discourseTimeoutMs: z.number().int().min(1).default(10000),
+      discourseMaxRetries: z.number().int().min(0).default(2),
+      discourseRetryBaseMs: z.number().int().min(0).default(200),
+      discourseMaxRetryAfterSeconds: z.number().min(0).default(5),
+      // Consecutive failures that pause Discourse requests, and for how long
+      circuitBreakerThreshold: z.number().int().min(1).default(5),
+      circuitBreakerCooldownSeconds: z.number().int().min(1).default(30),
+      storage: z.enum(["memory", "sqlite"]).default("memory"),
+      sqlitePath: z.string().default("./discourse-near.db"),
+      logLevel: z.enum(LOG_LEVELS).default("info"),
+    }),
+
+    secrets: z.object({
+      discourseApiKey: z.string().min(1),
+      // Master secret for sealing User API keys and pending RSA keys at rest
+      encryptionKey: z.string().min(32),
+      // Comma-separated retired master secrets, still accepted for decryption
+      previousEncryptionKeys: z.string().default(""),
+      // Secret of the Discourse webhook; webhooks are refused while unset
+      webhookSecret: z.string().default(""),
+      // Secret for the /admin routes; they are refused while unset
+      adminApiKey: z.string().default(""),
     }),
 
-  createRouter: (context) => {
-    const os = implement(contract).$context<typeof context>();
+    initialize: (config) =>
+      Effect.gen(function* () {
+        logger.setLevel(config.variables.logLevel);
+        const log = logger.child({ component: "Plugin" });
+        log.info("Initializing", {
+          discourseBaseUrl: config.variables.discourseBaseUrl,
+        });
 
-    return os.router({
-      getUserApiAuthUrl: os.getUserApiAuthUrl.handler(async ({ input }) => {
-        console.log("[getUserApiAuthUrl] Generating User API auth URL...");
+        const clients = new Map<string, ClientApp>(
+          (config.variables.clients.length > 0
+            ? config.variables.clients
+            : [
+                {
+                  clientId: config.variables.clientId,
+                  applicationName: config.variables.applicationName,
+                  scopes: ["read", "write"],
+                  redirects: config.variables.allowedRedirects,
+                },
+              ]
+          ).map((client: ClientApp) => [client.clientId, client])
+        );
+        log.info("Registered clients", {
+          clientIds: Array.from(clients.keys()),
+        });
 
-        // Generate RSA key pair
-        const { publicKey, privateKey } = generateKeyPairSync("rsa", {
-          modulusLength: 2048,
-          publicKeyEncoding: {
-            type: "spki",
-            format: "pem",
-          },
-          privateKeyEncoding: {
-            type: "pkcs8",
-            format: "pem",
+        const discourseClient = new DiscourseClient(
+          config.variables.discourseBaseUrl,
+          config.secrets.discourseApiKey,
+          config.variables.impersonateUsers,
+          {
+            timeoutMs: config.variables.discourseTimeoutMs,
+            maxRetries: config.variables.discourseMaxRetries,
+            retryBaseMs: config.variables.discourseRetryBaseMs,
+            maxRetryAfterSeconds:
+              config.variables.discourseMaxRetryAfterSeconds,
           },
+          new CircuitBreaker(
+            config.variables.circuitBreakerThreshold,
+            config.variables.circuitBreakerCooldownSeconds * 1000
+          )
+        );
+        if (config.variables.impersonateUsers) {
+          log.info("Posting via admin impersonation");
+        }
+
+        const storage = yield* Effect.tryPromise(() =>
+          createStorage({
+            backend: config.variables.storage,
+            sqlitePath: config.variables.sqlitePath,
+          })
+        );
+        log.info("Storage ready", { backend: storage.kind });
+
+        const secretBox = new SecretBox(
+          config.secrets.encryptionKey,
+          config.secrets.previousEncryptionKeys
+            .split(",")
+            .map((key) => key.trim())
+            .filter(Boolean)
+        );
+
+        const linkageStore = new LinkageStore(storage, secretBox);
+        const nonceManager = new NonceManager(storage, secretBox);
+        const replayCache = new ReplayCache(storage);
+        const auditLog = new AuditLog(storage);
+        const rateLimiter = new RateLimiter(
+          config.variables.rateLimitWindowSeconds * 1000
+        );
+
+        const allowFunctionCallKeys =
+          config.variables.keyPolicy === "function-call";
+        const keyPolicy: KeyPolicy = {
+          allowFunctionCallKeys,
+          functionCallContracts:
+            config.variables.functionCallContracts.length > 0
+              ? config.variables.functionCallContracts
+              : [config.variables.recipient],
+          resolver:
+            options.accessKeyResolver ??
+            (allowFunctionCallKeys || config.variables.verifyKeysOnChain
+              ? new RpcAccessKeyResolver(config.variables.nearRpcUrl)
+              : undefined),
+        };
+        log.info("Key policy", {
+          policy: config.variables.keyPolicy,
+          keyLookup: options.accessKeyResolver
+            ? "injected"
+            : keyPolicy.resolver
+            ? config.variables.nearRpcUrl
+            : "fastnear",
         });
 
-        console.log("[getUserApiAuthUrl] Generated RSA key pair");
+        yield* Effect.tryPromise(() => linkageStore.rotateKeys());
+
+        // A failed run is logged and skipped; the loop keeps its schedule
+        const runLogged = (task: string, run: () => Promise<unknown>) =>
+          Effect.tryPromise(run).pipe(
+            Effect.catchAll((error) =>
+              Effect.sync(() =>
+                log.error("Background task failed", {
+                  task,
+                  error: error.cause,
+                })
+              )
+            )
+          );
 
-        const nonce = context.nonceManager.create(input.clientId, privateKey);
+        yield* Effect.forkScoped(
+          Effect.gen(function* () {
+            while (true) {
+              yield* Effect.sleep("5 minutes");
+              yield* runLogged("nonce-cleanup", () => nonceManager.cleanup());
+              yield* runLogged("replay-cleanup", () => replayCache.cleanup());
+              rateLimiter.cleanup();
+            }
+          })
+        );
+
+        const checkInterval = config.variables.linkageCheckIntervalMinutes;
+        if (checkInterval > 0) {
+          const healthChecker = new LinkageHealthChecker(
+            linkageStore,
+            discourseClient
+          );
+          yield* Effect.forkScoped(
+            Effect.gen(function* () {
+              while (true) {
+                yield* Effect.sleep(`${checkInterval} minutes`);
+                yield* runLogged("linkage-check", () => healthChecker.run());
+              }
+            })
+          );
+          log.info("Checking linkages periodically", {
+            intervalMinutes: checkInterval,
+          });
+        }
 
-        const authUrl = context.discourseClient.getUserApiAuthUrl({
-          clientId: input.clientId,
-          applicationName: input.applicationName,
-          nonce: nonce,
-          publicKey: publicKey,
-          scopes: ["read", "write"],
-        });
+        log.info("Initialized");
 
-        console.log("[getUserApiAuthUrl] Auth URL generated");
         return {
-          authUrl,
-          nonce,
+          discourseClient,
+          storage,
+          linkageStore,
+          nonceManager,
+          replayCache,
+          auditLog,
+          rateLimiter,
+          rateLimits: {
+            perIp: config.variables.rateLimitPerIp,
+            perAccount: config.variables.rateLimitPerAccount,
+            routes: {
+              ...DEFAULT_ROUTE_LIMITS,
+              ...config.variables.routeRateLimits,
+            },
+          },
+          maxPendingNonces: config.variables.maxPendingNonces,
+          keyPolicy,
+          clients,
+          baseUrl: config.variables.discourseBaseUrl,
+          recipient: config.variables.recipient,
+          callbackUrl: config.variables.callbackUrl,
+          maxAccountsPerDiscourseUser:
+            config.variables.maxAccountsPerDiscourseUser,
+          webhookSecret: config.secrets.webhookSecret,
+          adminApiKey: config.secrets.adminApiKey,
         };
       }),
 
-      completeLink: os.completeLink.handler(async ({ input, errors }) => {
-        console.log("[completeLink] Starting link completion...");
-
-        let tempKeyPath: string | null = null;
+    shutdown: (context) => Effect.promise(() => context.storage.close()),
+
+    createRouter: (context) => {
+      const os = implement(contract).$context<typeof context>();
+
+      // Verifies a single-use NEAR auth token signed for exactly this action
+      // and payload, then looks up the signer's linkage. `audit` records the
+      // action with its signature once it has succeeded.
+      const authenticate = async (
+        errors: RateLimitErrors,
+        authToken: string,
+        action: AuthAction,
+        payload: Record<string, unknown>,
+        meta?: RequestMeta
+      ) => {
+        const { accountId, publicKey } = await verifyActionToken(authToken, {
+          action,
+          payload,
+          recipient: context.recipient,
+          maxAge: 300000,
+          replayCache: context.replayCache,
+          keyPolicy: context.keyPolicy,
+        });
+        rateLimit(errors, action, { account: accountId });
+        const linkage = await context.linkageStore.get(accountId);
+        const audit = (details: Record<string, unknown>) =>
+          context.auditLog.recordSigned({
+            accountId,
+            publicKey,
+            action,
+            payload,
+            authToken,
+            details,
+            meta,
+          });
+        return { accountId, linkage, audit };
+      };
 
+      // The one path every signed write takes: authenticate, hand the
+      // caller's linkage to `run`, audit the details it reports, and map any
+      // failure onto a contract error (Discourse ones against `target`)
+      const signedWrite = async <T>(
+        errors: SignedWriteErrors,
+        log: Logger,
+        request: {
+          authToken: string;
+          action: AuthAction;
+          payload: Record<string, unknown>;
+          meta?: RequestMeta;
+          target?: DiscourseTarget;
+        },
+        run: (caller: {
+          accountId: string;
+          linkage: Linkage | null;
+        }) => Promise<{ result: T; details: Record<string, unknown> }>
+      ): Promise<T> => {
         try {
-          // Verify nonce
-          if (!context.nonceManager.verify(input.nonce, context.clientId)) {
-            throw errors.BAD_REQUEST({
-              message: "Invalid or expired nonce",
-              data: {},
+          const { audit, ...caller } = await authenticate(
+            errors,
+            request.authToken,
+            request.action,
+            request.payload,
+            request.meta
+          );
+          const { result, details } = await run(caller);
+          await audit(details);
+          return result;
+        } catch (error) {
+          log.error("Signed write failed", { action: request.action, error });
+          throw toSignedWriteError(errors, error, request.target);
+        }
+      };
+
+      const requestLog = (route: string, meta?: RequestMeta) =>
+        logger.child({ route, requestId: meta?.requestId });
+      const rateLimitLog = logger.child({ component: "RateLimiter" });
+
+      // Counts a request against the caller's IP (overall and for this route)
+      // or NEAR account, and throws TOO_MANY_REQUESTS once one is used up
+      const rateLimit = (
+        errors: RateLimitErrors,
+        route: string,
+        caller: { ip?: string; account?: string }
+      ) => {
+        const { perIp, perAccount, routes } = context.rateLimits;
+        const checks: Array<[RateLimitScope, string, number]> = [];
+        if (caller.ip) {
+          checks.push(["ip", `ip:${caller.ip}`, perIp]);
+          checks.push(["route", `${route}:${caller.ip}`, routes[route] ?? 0]);
+        }
+        if (caller.account) {
+          checks.push(["account", `account:${caller.account}`, perAccount]);
+        }
+
+        for (const [scope, key, limit] of checks) {
+          if (limit === 0) {
+            continue;
+          }
+          const retryAfter = context.rateLimiter.hit(key, limit);
+          if (retryAfter > 0) {
+            rateLimitLog.info("Rate limit hit", { route, scope, bucket: key });
+            throw errors.TOO_MANY_REQUESTS({
+              message: `Rate limit exceeded, retry in ${retryAfter}s`,
+              data: { retryAfter, limit, scope },
             });
           }
+        }
+      };
+
+      // Returns the audit actor for a valid admin key, null otherwise
+      const adminActor = (input: { adminKey: string; moderator?: string }) =>
+        context.adminApiKey && isAdminKey(input.adminKey, context.adminApiKey)
+          ? `admin:${input.moderator ?? "unknown"}`
+          : null;
+
+      const postUrl = (post: DiscoursePost) =>
+        `${context.baseUrl}/t/${post.topic_slug}/${post.topic_id}/${post.post_number}`;
+
+      const completeLink = os.completeLink.handler(
+        async ({ input, errors }) => {
+          rateLimit(errors, "completeLink", { ip: input.meta?.ip });
+          const log = requestLog("completeLink", input.meta);
+
+          log.debug("Starting link completion");
+
+          try {
+            // Verify nonce, issued to a client that is still registered
+            const nonceData = await context.nonceManager.get(input.nonce);
+            if (!nonceData || !context.clients.has(nonceData.clientId)) {
+              throw errors.BAD_REQUEST({
+                message: "Invalid or expired nonce",
+                data: {},
+              });
+            }
+
+            // The NEAR signature must commit to this Discourse nonce, proving the
+            // same person started the User API flow and signed with NEAR
+            let nearResult;
+            try {
+              nearResult = await verifyActionToken(input.authToken, {
+                action: "complete-link",
+                payload: { nonce: input.nonce },
+                recipient: context.recipient,
+                maxAge: 600000,
+                replayCache: context.replayCache,
+                keyPolicy: context.keyPolicy,
+              });
+            } catch (error) {
+              if (error instanceof AuthTokenError) {
+                throw errors.UNAUTHORIZED({
+                  message: error.message,
+                  data: { apiKeyProvided: true, authType: "token" },
+                });
+              }
+              throw error;
+            }
+
+            log.debug("NEAR signature verified", {
+              nearAccount: nearResult.accountId,
+            });
+            rateLimit(errors, "complete-link", {
+              account: nearResult.accountId,
+            });
+
+            let decryptedData;
+            try {
+              decryptedData = decryptDiscoursePayload(
+                input.payload,
+                nonceData.privateKey
+              );
+            } catch (error) {
+              if (error instanceof PayloadDecryptionError) {
+                // A key that failed to decrypt is never reused, so the endpoint
+                // can't be used as a padding oracle against it
+                if (error.reason === "decryption_failed") {
+                  await context.nonceManager.consume(input.nonce);
+                }
+                throw errors.BAD_REQUEST({
+                  message: `Invalid Discourse payload: ${error.message}`,
+                  data: {
+                    invalidFields: ["payload"],
+                    validationErrors: [
+                      {
+                        field: "payload",
+                        message: error.message,
+                        code: error.reason,
+                      },
+                    ],
+                  },
+                });
+              }
+              throw error;
+            }
+            // Discourse echoes the nonce it was asked for; a payload minted for
+            // another auth request must not complete this one
+            if (decryptedData.nonce !== input.nonce) {
+              await context.nonceManager.consume(input.nonce);
+              throw errors.BAD_REQUEST({
+                message: "Discourse payload was issued for a different nonce",
+                data: {
+                  invalidFields: ["payload"],
+                  validationErrors: [
+                    {
+                      field: "payload",
+                      message: "Nonce mismatch",
+                      code: "nonce_mismatch",
+                    },
+                  ],
+                },
+              });
+            }
+
+            const userApiKey = decryptedData.key;
+
+            // Get Discourse user info using the User API key
+            const discourseUser = await fromDiscourse(
+              errors,
+              { action: "complete-link", resource: "user" },
+              context.discourseClient.getCurrentUser(userApiKey)
+            );
+
+            log.debug("Discourse user verified", {
+              discourseUsername: discourseUser.username,
+            });
+
+            const existing = await context.linkageStore.get(
+              nearResult.accountId
+            );
+            const siblings = (
+              await context.linkageStore.findByDiscourseUserId(discourseUser.id)
+            ).filter((linkage) => linkage.nearAccount !== nearResult.accountId);
+
+            if (siblings.length >= context.maxAccountsPerDiscourseUser) {
+              await context.nonceManager.consume(input.nonce);
+              await context.discourseClient
+                .revokeUserApiKey(userApiKey)
+                .catch(() => {});
+              throw errors.FORBIDDEN({
+                message: `${discourseUser.username} already has ${siblings.length} linked NEAR accounts, the maximum allowed`,
+                data: {
+                  requiredPermissions: ["linkage-slot"],
+                  action: "complete-link",
+                },
+              });
+            }
+
+            // Re-link: the key for the previous link is revoked before the new
+            // one is stored, so one NEAR account never holds two live keys
+            if (existing && existing.userApiKey !== userApiKey) {
+              log.info("Replacing existing link", {
+                nearAccount: nearResult.accountId,
+                previousDiscourseUsername: existing.discourseUsername,
+              });
+              try {
+                await context.discourseClient.revokeUserApiKey(
+                  existing.userApiKey
+                );
+              } catch (revokeError: any) {
+                log.error("Could not revoke previous User API key", {
+                  error: revokeError,
+                });
+                // Don't leave the freshly issued key dangling either
+                await context.discourseClient
+                  .revokeUserApiKey(userApiKey)
+                  .catch(() => {});
+                throw errors.SERVICE_UNAVAILABLE({
+                  message:
+                    "Could not revoke the previously linked Discourse key. Please try again.",
+                  data: {},
+                });
+              }
+            }
+
+            // The first account linked to a Discourse user becomes its primary
+            const isPrimary =
+              existing?.discourseUserId === discourseUser.id
+                ? existing.isPrimary
+                : !siblings.some((linkage) => linkage.isPrimary);
+
+            // Store linkage with User API key
+            await context.linkageStore.set(nearResult.accountId, {
+              nearAccount: nearResult.accountId,
+              discourseUsername: discourseUser.username,
+              discourseUserId: discourseUser.id,
+              userApiKey: userApiKey,
+              clientId: nonceData.clientId,
+              scopes: nonceData.scopes,
+              status: "active",
+              isPrimary,
+              verifiedAt: new Date().toISOString(),
+            });
+
+            if (existing && existing.discourseUserId !== discourseUser.id) {
+              await context.linkageStore.ensurePrimary(
+                existing.discourseUserId
+              );
+            }
+
+            await context.nonceManager.consume(input.nonce);
+
+            log.info("Linked account", {
+              nearAccount: nearResult.accountId,
+              discourseUsername: discourseUser.username,
+            });
+
+            await context.auditLog.recordSigned({
+              accountId: nearResult.accountId,
+              publicKey: nearResult.publicKey,
+              action: "complete-link",
+              payload: { nonce: input.nonce },
+              authToken: input.authToken,
+              details: {
+                discourseUserId: discourseUser.id,
+                discourseUsername: discourseUser.username,
+                previousDiscourseUsername: existing?.discourseUsername,
+                clientId: nonceData.clientId,
+                scopes: nonceData.scopes,
+              },
+              meta: input.meta,
+            });
 
-          console.log("[completeLink] Nonce verified");
+            return {
+              success: true,
+              nearAccount: nearResult.accountId,
+              discourseUsername: discourseUser.username,
+              previousDiscourseUsername: existing?.discourseUsername,
+              isPrimary,
+              message: existing
+                ? `Successfully re-linked ${nearResult.accountId} to ${discourseUser.username}`
+                : `Successfully linked ${nearResult.accountId} to ${discourseUser.username}`,
+            };
+          } catch (error: any) {
+            log.error("Link failed", { error });
+
+            if (error && typeof error === "object" && "code" in error) {
+              throw error;
+            }
 
-          // Get private key
-          const privateKey = context.nonceManager.getPrivateKey(input.nonce);
-          if (!privateKey) {
             throw errors.BAD_REQUEST({
-              message: "Private key not found",
+              message: error.message || "Link completion failed",
               data: {},
             });
           }
+        }
+      );
 
-          // Decrypt payload using OpenSSL shell script
-          console.log("[completeLink] Decrypting payload...");
-
-          // Write private key to temp file
-          tempKeyPath = join(process.cwd(), `.temp-key-${input.nonce}.pem`);
-          writeFileSync(tempKeyPath, privateKey);
+      return os.router({
+        getUserApiAuthUrl: os.getUserApiAuthUrl.handler(
+          async ({ input, errors }) => {
+            rateLimit(errors, "getUserApiAuthUrl", { ip: input.meta?.ip });
+            const log = requestLog("getUserApiAuthUrl", input.meta);
+
+            log.debug("Generating User API auth URL");
+
+            const client = context.clients.get(input.clientId);
+            if (!client) {
+              throw errors.FORBIDDEN({
+                message: `Unknown client application: ${input.clientId}`,
+                data: { action: "get-user-api-url" },
+              });
+            }
+
+            const scopes = input.scopes ?? client.scopes;
+            const disallowed = scopes.filter(
+              (scope) => !client.scopes.includes(scope)
+            );
+            if (disallowed.length > 0) {
+              throw errors.FORBIDDEN({
+                message: `Scopes not allowed for ${
+                  client.clientId
+                }: ${disallowed.join(", ")}`,
+                data: {
+                  requiredPermissions: disallowed,
+                  action: "get-user-api-url",
+                },
+              });
+            }
+
+            if (input.authRedirect) {
+              if (!context.callbackUrl) {
+                throw errors.BAD_REQUEST({
+                  message: "The browser redirect flow is not configured",
+                  data: { invalidFields: ["authRedirect"] },
+                });
+              }
+              if (!isAllowedRedirect(input.authRedirect, client.redirects)) {
+                throw errors.BAD_REQUEST({
+                  message: "authRedirect is not an allowed redirect URL",
+                  data: { invalidFields: ["authRedirect"] },
+                });
+              }
+            }
+
+            // Every pending nonce holds an RSA private key until it expires
+            const pending = await context.nonceManager.pendingCount();
+            if (pending >= context.maxPendingNonces) {
+              throw errors.TOO_MANY_REQUESTS({
+                message: "Too many pending authorizations, try again later",
+                data: {
+                  retryAfter: 60,
+                  limit: context.maxPendingNonces,
+                  scope: "nonces",
+                },
+              });
+            }
+
+            // Generate RSA key pair off the main thread
+            const { publicKey, privateKey } = await generateRsaKeyPair("rsa", {
+              modulusLength: 2048,
+              publicKeyEncoding: {
+                type: "spki",
+                format: "pem",
+              },
+              privateKeyEncoding: {
+                type: "pkcs8",
+                format: "pem",
+              },
+            });
 
-          // Use the shell script instead of Node.js
-          const { stdout, stderr } = await execAsync(
-            `chmod +x ./src/decrypt.sh && ./src/decrypt.sh "${tempKeyPath}" "${input.payload}"`
-          );
+            const stateVerifier = input.authRedirect
+              ? randomBytes(32).toString("base64url")
+              : undefined;
+            const nonce = await context.nonceManager.create({
+              clientId: client.clientId,
+              privateKey,
+              scopes,
+              authRedirect: input.authRedirect,
+              stateVerifier,
+            });
 
-          // Clean up temp file
-          unlinkSync(tempKeyPath);
-          tempKeyPath = null;
+            const authUrl = context.discourseClient.getUserApiAuthUrl({
+              clientId: client.clientId,
+              applicationName: client.applicationName,
+              nonce: nonce,
+              publicKey: publicKey,
+              scopes,
+              // Discourse appends `payload`; `state` tells the callback which
+              // nonce (and private key) the payload belongs to
+              authRedirect:
+                input.authRedirect && context.callbackUrl
+                  ? withQuery(context.callbackUrl, { state: nonce })
+                  : undefined,
+            });
 
-          if (stderr) {
-            console.error("[completeLink] Decryption stderr:", stderr);
+            log.info("Generated auth URL", {
+              clientId: client.clientId,
+              noncePrefix: nonce.substring(0, 8),
+            });
+            return {
+              authUrl,
+              nonce,
+              scopes,
+              stateVerifier,
+            };
           }
+        ),
 
-          if (!stdout || stdout.trim().length === 0) {
-            throw new Error("Failed to decrypt payload: empty result");
-          }
+        submitLinkSignature: os.submitLinkSignature.handler(
+          async ({ input, errors }) => {
+            rateLimit(errors, "submitLinkSignature", { ip: input.meta?.ip });
+            const log = requestLog("submitLinkSignature", input.meta);
 
-          // Parse the decrypted JSON
-          const decryptedData = JSON.parse(stdout.trim());
-          const userApiKey = decryptedData.key;
+            log.debug("Attaching link signature");
 
-          console.log("[completeLink] Payload decrypted successfully");
+            const nonceData = await context.nonceManager.get(input.nonce);
+            if (!nonceData?.authRedirect) {
+              throw errors.BAD_REQUEST({
+                message: "Invalid or expired nonce for the redirect flow",
+                data: { invalidFields: ["nonce"] },
+              });
+            }
 
-          // Get Discourse user info using the User API key
-          console.log("[completeLink] Getting Discourse user info...");
-          const discourseUser = await context.discourseClient.getCurrentUser(
-            userApiKey
-          );
+            // Checked now so a bad signature fails here rather than after the
+            // round trip to Discourse; claimed against replay in completeLink
+            try {
+              await checkActionToken(input.authToken, {
+                action: "complete-link",
+                payload: { nonce: input.nonce },
+                recipient: context.recipient,
+                maxAge: 600000,
+                keyPolicy: context.keyPolicy,
+              });
+            } catch (error) {
+              if (error instanceof AuthTokenError) {
+                throw errors.UNAUTHORIZED({
+                  message: error.message,
+                  data: { apiKeyProvided: true, authType: "token" },
+                });
+              }
+              throw error;
+            }
+
+            if (
+              !(await context.nonceManager.attachAuthToken(
+                input.nonce,
+                input.authToken
+              ))
+            ) {
+              throw errors.BAD_REQUEST({
+                message:
+                  "A link signature was already submitted for this nonce",
+                data: { invalidFields: ["nonce"] },
+              });
+            }
+
+            return { success: true };
+          }
+        ),
+
+        completeAuthCallback: os.completeAuthCallback.handler(
+          async ({ input, errors }) => {
+            const log = requestLog("completeAuthCallback", input.meta);
+            log.debug("Handling Discourse redirect");
+
+            const nonceData = await context.nonceManager.get(input.state);
+            if (!nonceData?.authRedirect) {
+              throw errors.BAD_REQUEST({
+                message: "Invalid or expired auth state",
+                data: { invalidFields: ["state"] },
+              });
+            }
+            // Otherwise anyone could send a victim through an auth URL they
+            // started and link the victim's forum account to their own NEAR
+            // account
+            if (!matchesState(nonceData, input.stateVerifier)) {
+              log.warn("Auth state presented without its verifier", {
+                noncePrefix: input.state.substring(0, 8),
+              });
+              throw errors.BAD_REQUEST({
+                message: "This authorization was started in another browser",
+                data: { invalidFields: ["state"] },
+              });
+            }
+            const appRedirect = nonceData.authRedirect;
+
+            if (!input.payload) {
+              return {
+                status: "error" as const,
+                redirectUrl: withQuery(appRedirect, {
+                  status: "error",
+                  reason: "missing_payload",
+                }),
+              };
+            }
+
+            // No signature yet: hand the payload to the app's signing page.
+            // It travels in the fragment so it stays out of server logs.
+            if (!nonceData.authToken) {
+              return {
+                status: "signature_required" as const,
+                redirectUrl: withQuery(
+                  appRedirect,
+                  { status: "signature_required", nonce: input.state },
+                  { payload: input.payload }
+                ),
+              };
+            }
 
-          console.log(
-            "[completeLink] Discourse user verified:",
-            discourseUser.username
+            try {
+              const result = await call(
+                completeLink,
+                {
+                  payload: input.payload,
+                  nonce: input.state,
+                  authToken: nonceData.authToken,
+                  meta: input.meta,
+                },
+                { context }
+              );
+
+              return {
+                status: "success" as const,
+                redirectUrl: withQuery(appRedirect, {
+                  status: "success",
+                  nearAccount: result.nearAccount,
+                  discourseUsername: result.discourseUsername,
+                }),
+              };
+            } catch (error: any) {
+              // Details stay in the log: the redirect URL ends up in the
+              // browser's history and in Referer headers
+              log.warn("Redirect flow failed", { error });
+              const reason =
+                typeof error?.code === "string" && error.code in PluginErrors
+                  ? error.code.toLowerCase()
+                  : "link_failed";
+              return {
+                status: "error" as const,
+                redirectUrl: withQuery(appRedirect, {
+                  status: "error",
+                  reason,
+                }),
+              };
+            }
+          }
+        ),
+
+        completeLink,
+
+        createPost: os.createPost.handler(async ({ input, errors }) => {
+          rateLimit(errors, "createPost", { ip: input.meta?.ip });
+          const log = requestLog("createPost", input.meta);
+
+          log.debug("Starting post creation");
+
+          return signedWrite(
+            errors,
+            log,
+            {
+              authToken: input.authToken,
+              action: "create-post",
+              payload: {
+                title: input.title,
+                raw: input.raw,
+                category: input.category,
+              },
+              meta: input.meta,
+              target: {
+                action: "create-post",
+                resource: "category",
+                resourceId: input.category,
+              },
+            },
+            async ({ linkage }) => {
+              if (!linkage) {
+                throw errors.FORBIDDEN({
+                  message:
+                    "No linked Discourse account found. Please link your account first.",
+                  data: {
+                    requiredPermissions: ["linked-account"],
+                    action: "create-post",
+                  },
+                });
+              }
+              if (!WRITABLE_STATUSES.includes(linkage.status)) {
+                throw errors.FORBIDDEN({
+                  message: `Linked Discourse account is ${linkage.status}`,
+                  data: {
+                    requiredPermissions: ["active-linkage"],
+                    action: "create-post",
+                  },
+                });
+              }
+
+              log.debug("Creating post", {
+                discourseUsername: linkage.discourseUsername,
+              });
+
+              const postData = await context.discourseClient.createPost({
+                title: input.title,
+                raw: input.raw,
+                category: input.category,
+                actor: linkage,
+              });
+
+              log.info("Created post", {
+                postId: postData.id,
+                topicId: postData.topic_id,
+              });
+
+              return {
+                result: {
+                  success: true,
+                  postUrl: `${context.baseUrl}/t/${postData.topic_slug}/${postData.topic_id}`,
+                  postId: postData.id,
+                  topicId: postData.topic_id,
+                },
+                details: {
+                  discourseUserId: linkage.discourseUserId,
+                  postId: postData.id,
+                  topicId: postData.topic_id,
+                },
+              };
+            }
+          );
+        }),
+
+        replyToTopic: os.replyToTopic.handler(async ({ input, errors }) => {
+          rateLimit(errors, "replyToTopic", { ip: input.meta?.ip });
+          const log = requestLog("replyToTopic", input.meta);
+
+          log.debug("Replying to topic", { topicId: input.topicId });
+
+          return signedWrite(
+            errors,
+            log,
+            {
+              authToken: input.authToken,
+              action: "reply-to-topic",
+              payload: {
+                topicId: input.topicId,
+                raw: input.raw,
+                replyToPostNumber: input.replyToPostNumber,
+              },
+              meta: input.meta,
+              target: {
+                action: "reply-to-topic",
+                resource: "topic",
+                resourceId: input.topicId,
+              },
+            },
+            async ({ linkage }) => {
+              if (!linkage) {
+                throw errors.FORBIDDEN({
+                  message:
+                    "No linked Discourse account found. Please link your account first.",
+                  data: {
+                    requiredPermissions: ["linked-account"],
+                    action: "reply-to-topic",
+                  },
+                });
+              }
+              if (!WRITABLE_STATUSES.includes(linkage.status)) {
+                throw errors.FORBIDDEN({
+                  message: `Linked Discourse account is ${linkage.status}`,
+                  data: {
+                    requiredPermissions: ["active-linkage"],
+                    action: "reply-to-topic",
+                  },
+                });
+              }
+
+              const post = await context.discourseClient.replyToTopic({
+                topicId: input.topicId,
+                raw: input.raw,
+                replyToPostNumber: input.replyToPostNumber,
+                actor: linkage,
+              });
+
+              log.info("Created reply", {
+                postId: post.id,
+                topicId: input.topicId,
+              });
+
+              return {
+                result: {
+                  success: true,
+                  postUrl: postUrl(post),
+                  postId: post.id,
+                  topicId: post.topic_id,
+                  postNumber: post.post_number,
+                },
+                details: {
+                  discourseUserId: linkage.discourseUserId,
+                  postId: post.id,
+                  topicId: post.topic_id,
+                },
+              };
+            }
           );
+        }),
+
+        editPost: os.editPost.handler(async ({ input, errors }) => {
+          rateLimit(errors, "editPost", { ip: input.meta?.ip });
+          const log = requestLog("editPost", input.meta);
+
+          log.debug("Editing post", { postId: input.postId });
+
+          return signedWrite(
+            errors,
+            log,
+            {
+              authToken: input.authToken,
+              action: "edit-post",
+              payload: {
+                postId: input.postId,
+                raw: input.raw,
+                editReason: input.editReason,
+              },
+              meta: input.meta,
+              target: {
+                action: "edit-post",
+                resource: "post",
+                resourceId: input.postId,
+              },
+            },
+            async ({ linkage }) => {
+              if (!linkage) {
+                throw errors.FORBIDDEN({
+                  message:
+                    "No linked Discourse account found. Please link your account first.",
+                  data: {
+                    requiredPermissions: ["linked-account"],
+                    action: "edit-post",
+                  },
+                });
+              }
+              if (!WRITABLE_STATUSES.includes(linkage.status)) {
+                throw errors.FORBIDDEN({
+                  message: `Linked Discourse account is ${linkage.status}`,
+                  data: {
+                    requiredPermissions: ["active-linkage"],
+                    action: "edit-post",
+                  },
+                });
+              }
+
+              const existing = await context.discourseClient.getPost(
+                input.postId,
+                linkage
+              );
+              if (existing.user_id !== linkage.discourseUserId) {
+                throw errors.FORBIDDEN({
+                  message: "You can only edit your own posts",
+                  data: {
+                    requiredPermissions: ["post-owner"],
+                    action: "edit-post",
+                  },
+                });
+              }
+
+              const post = await context.discourseClient.editPost({
+                postId: input.postId,
+                raw: input.raw,
+                editReason: input.editReason,
+                actor: linkage,
+              });
+
+              log.info("Edited post", { postId: post.id });
+
+              return {
+                result: {
+                  success: true,
+                  postUrl: postUrl(post),
+                  postId: post.id,
+                },
+                details: {
+                  discourseUserId: linkage.discourseUserId,
+                  postId: post.id,
+                },
+              };
+            }
+          );
+        }),
+
+        deletePost: os.deletePost.handler(async ({ input, errors }) => {
+          rateLimit(errors, "deletePost", { ip: input.meta?.ip });
+          const log = requestLog("deletePost", input.meta);
+
+          log.debug("Deleting post", { postId: input.postId });
+
+          return signedWrite(
+            errors,
+            log,
+            {
+              authToken: input.authToken,
+              action: "delete-post",
+              payload: { postId: input.postId },
+              meta: input.meta,
+              target: {
+                action: "delete-post",
+                resource: "post",
+                resourceId: input.postId,
+              },
+            },
+            async ({ linkage }) => {
+              if (!linkage) {
+                throw errors.FORBIDDEN({
+                  message:
+                    "No linked Discourse account found. Please link your account first.",
+                  data: {
+                    requiredPermissions: ["linked-account"],
+                    action: "delete-post",
+                  },
+                });
+              }
+              if (!WRITABLE_STATUSES.includes(linkage.status)) {
+                throw errors.FORBIDDEN({
+                  message: `Linked Discourse account is ${linkage.status}`,
+                  data: {
+                    requiredPermissions: ["active-linkage"],
+                    action: "delete-post",
+                  },
+                });
+              }
+
+              const existing = await context.discourseClient.getPost(
+                input.postId,
+                linkage
+              );
+              if (existing.user_id !== linkage.discourseUserId) {
+                throw errors.FORBIDDEN({
+                  message: "You can only delete your own posts",
+                  data: {
+                    requiredPermissions: ["post-owner"],
+                    action: "delete-post",
+                  },
+                });
+              }
+
+              await context.discourseClient.deletePost({
+                postId: input.postId,
+                actor: linkage,
+              });
+
+              log.info("Deleted post", { postId: input.postId });
+
+              return {
+                result: {
+                  success: true,
+                  postId: input.postId,
+                },
+                details: {
+                  discourseUserId: linkage.discourseUserId,
+                  postId: input.postId,
+                },
+              };
+            }
+          );
+        }),
+
+        unlink: os.unlink.handler(async ({ input, errors }) => {
+          rateLimit(errors, "unlink", { ip: input.meta?.ip });
+          const log = requestLog("unlink", input.meta);
+
+          log.debug("Starting unlink");
+
+          return signedWrite(
+            errors,
+            log,
+            {
+              authToken: input.authToken,
+              action: "unlink",
+              payload: {},
+              meta: input.meta,
+            },
+            async ({ accountId, linkage }) => {
+              if (!linkage) {
+                throw errors.NOT_FOUND({
+                  message: "No linked Discourse account found for this account",
+                  data: { resource: "linkage", resourceId: accountId },
+                });
+              }
+
+              // Revoke first: if Discourse is unreachable the linkage stays and
+              // the user can retry, rather than leaving an orphaned live key
+              try {
+                await context.discourseClient.revokeUserApiKey(
+                  linkage.userApiKey
+                );
+              } catch (revokeError: any) {
+                log.error("User API key revocation failed", {
+                  error: revokeError,
+                });
+                throw errors.SERVICE_UNAVAILABLE({
+                  message:
+                    "Could not revoke the Discourse User API key. Please try again.",
+                  data: {},
+                });
+              }
+
+              await context.linkageStore.delete(accountId);
+              await context.linkageStore.ensurePrimary(linkage.discourseUserId);
+
+              log.info("Unlinked account", { nearAccount: accountId });
+
+              return {
+                result: {
+                  success: true,
+                  nearAccount: accountId,
+                  discourseUsername: linkage.discourseUsername,
+                  message: `Successfully unlinked ${accountId} from ${linkage.discourseUsername}`,
+                },
+                details: {
+                  discourseUserId: linkage.discourseUserId,
+                  discourseUsername: linkage.discourseUsername,
+                },
+              };
+            }
+          );
+        }),
 
-          // Verify NEAR signature
-          console.log("[completeLink] Verifying NEAR signature...");
-          const nearResult = await verify(input.authToken, {
-            expectedRecipient: context.recipient, // social.near
-            nonceMaxAge: 600000,
-          });
+        listCategories: os.listCategories.handler(async ({ input, errors }) => {
+          rateLimit(errors, "listCategories", { ip: input.meta?.ip });
+          const log = requestLog("listCategories", input.meta);
+
+          log.debug("Fetching categories", { page: input.page });
 
-          console.log(
-            "[completeLink] NEAR signature verified:",
-            nearResult.accountId
+          const categories = await fromDiscourse(
+            errors,
+            { action: "list-categories", resource: "category" },
+            context.discourseClient.listCategories()
           );
+          const start = input.page * input.perPage;
 
-          // Store linkage with User API key
-          context.linkageStore.set(nearResult.accountId, {
-            nearAccount: nearResult.accountId,
-            discourseUsername: discourseUser.username,
-            discourseUserId: discourseUser.id,
-            userApiKey: userApiKey,
-            verifiedAt: new Date().toISOString(),
-          });
+          return {
+            categories: categories
+              .slice(start, start + input.perPage)
+              .map(toCategory),
+            page: input.page,
+            hasMore: start + input.perPage < categories.length,
+          };
+        }),
+
+        getLatestTopics: os.getLatestTopics.handler(
+          async ({ input, errors }) => {
+            rateLimit(errors, "getLatestTopics", { ip: input.meta?.ip });
+            const log = requestLog("getLatestTopics", input.meta);
 
-          context.nonceManager.consume(input.nonce);
+            log.debug("Fetching topics", {
+              categoryId: input.categoryId,
+              page: input.page,
+            });
+
+            const { topics, hasMore } = await fromDiscourse(
+              errors,
+              {
+                action: "get-latest-topics",
+                resource: "category",
+                resourceId: input.categoryId,
+              },
+              context.discourseClient.getLatestTopics(input)
+            );
+
+            return {
+              topics: topics.map((topic) =>
+                toTopicSummary(context.baseUrl, topic)
+              ),
+              page: input.page,
+              hasMore,
+            };
+          }
+        ),
+
+        getTopic: os.getTopic.handler(async ({ input, errors }) => {
+          rateLimit(errors, "getTopic", { ip: input.meta?.ip });
+          const log = requestLog("getTopic", input.meta);
+
+          log.debug("Fetching topic", { topicId: input.topicId });
+
+          const topic = await fromDiscourse(
+            errors,
+            {
+              action: "get-topic",
+              resource: "topic",
+              resourceId: input.topicId,
+            },
+            context.discourseClient.getTopic(input.topicId, input.page)
+          );
 
-          console.log("[completeLink] Link successful!");
+          const chunkSize = topic.chunk_size || 20;
 
           return {
-            success: true,
-            nearAccount: nearResult.accountId,
-            discourseUsername: discourseUser.username,
-            message: `Successfully linked ${nearResult.accountId} to ${discourseUser.username}`,
+            topic: toTopicSummary(context.baseUrl, topic),
+            posts: topic.post_stream.posts.map((post) => ({
+              id: post.id,
+              postNumber: post.post_number,
+              username: post.username,
+              name: post.name ?? null,
+              avatarUrl: avatarUrl(context.baseUrl, post.avatar_template),
+              cooked: post.cooked,
+              createdAt: post.created_at,
+              replyToPostNumber: post.reply_to_post_number ?? null,
+            })),
+            page: input.page,
+            hasMore: (input.page + 1) * chunkSize < topic.posts_count,
           };
-        } catch (error: any) {
-          // Clean up temp file on error
-          if (tempKeyPath) {
-            try {
-              unlinkSync(tempKeyPath);
-            } catch {}
+        }),
+
+        getUserProfile: os.getUserProfile.handler(async ({ input, errors }) => {
+          rateLimit(errors, "getUserProfile", { ip: input.meta?.ip });
+          const log = requestLog("getUserProfile", input.meta);
+
+          log.debug("Fetching profile", { nearAccount: input.nearAccount });
+
+          const linkage = await context.linkageStore.get(input.nearAccount);
+          if (!linkage) {
+            throw errors.NOT_FOUND({
+              message: "No linked Discourse account found for this account",
+              data: { resource: "linkage", resourceId: input.nearAccount },
+            });
           }
 
-          console.error("[completeLink] Error:", error.message);
-          console.error("[completeLink] Full error:", error);
+          const user = await fromDiscourse(
+            errors,
+            {
+              action: "get-user-profile",
+              resource: "user",
+              resourceId: linkage.discourseUsername,
+            },
+            context.discourseClient.getUser(linkage.discourseUsername)
+          );
 
-          if (error && typeof error === "object" && "code" in error) {
-            throw error;
+          return {
+            ...toUserProfile(context.baseUrl, user),
+            nearAccount: linkage.nearAccount,
+          };
+        }),
+
+        getLinkage: os.getLinkage.handler(async ({ input, errors }) => {
+          rateLimit(errors, "getLinkage", { ip: input.meta?.ip });
+
+          const linkage = await context.linkageStore.get(input.nearAccount);
+
+          if (linkage) {
+            const siblings = await context.linkageStore.findByDiscourseUserId(
+              linkage.discourseUserId
+            );
+
+            // Don't expose the User API key
+            return {
+              ...toLinkageSummary(linkage),
+              linkedAccounts: siblings.map((sibling) => ({
+                nearAccount: sibling.nearAccount,
+                status: sibling.status,
+                isPrimary: sibling.isPrimary,
+                verifiedAt: sibling.verifiedAt,
+              })),
+            };
           }
 
-          throw errors.BAD_REQUEST({
-            message: error.message || "Link completion failed",
-            data: {},
-          });
-        }
-      }),
+          return linkage;
+        }),
 
-      createPost: os.createPost.handler(async ({ input, errors }) => {
-        console.log("[createPost] Starting post creation...");
+        setPrimaryAccount: os.setPrimaryAccount.handler(
+          async ({ input, errors }) => {
+            rateLimit(errors, "setPrimaryAccount", { ip: input.meta?.ip });
+            const log = requestLog("setPrimaryAccount", input.meta);
 
-        try {
-          const result = await verify(input.authToken, {
-            expectedRecipient: context.recipient,
-            nonceMaxAge: 300000,
-          });
+            log.debug("Changing primary account");
 
-          const linkage = context.linkageStore.get(result.accountId);
-          if (!linkage) {
-            throw errors.FORBIDDEN({
-              message:
-                "No linked Discourse account found. Please link your account first.",
-              data: {
-                requiredPermissions: ["linked-account"],
-                action: "create-post",
+            return signedWrite(
+              errors,
+              log,
+              {
+                authToken: input.authToken,
+                action: "set-primary",
+                payload: {},
+                meta: input.meta,
               },
+              async ({ accountId, linkage }) => {
+                if (!linkage) {
+                  throw errors.NOT_FOUND({
+                    message:
+                      "No linked Discourse account found for this account",
+                    data: { resource: "linkage", resourceId: accountId },
+                  });
+                }
+
+                const previousPrimary = await context.linkageStore.setPrimary(
+                  linkage
+                );
+
+                log.info("Changed primary account", {
+                  nearAccount: accountId,
+                  discourseUsername: linkage.discourseUsername,
+                });
+
+                return {
+                  result: {
+                    success: true,
+                    nearAccount: accountId,
+                    discourseUsername: linkage.discourseUsername,
+                    previousPrimary,
+                  },
+                  details: {
+                    discourseUserId: linkage.discourseUserId,
+                    previousPrimary,
+                  },
+                };
+              }
+            );
+          }
+        ),
+
+        getLinkageByDiscourseUser: os.getLinkageByDiscourseUser.handler(
+          async ({ input, errors }) => {
+            rateLimit(errors, "getLinkageByDiscourseUser", {
+              ip: input.meta?.ip,
             });
+            const log = requestLog("getLinkageByDiscourseUser", input.meta);
+
+            log.debug("Looking up Discourse user", {
+              discourseUsername: input.username,
+              discourseUserId: input.userId,
+            });
+
+            const linkages =
+              input.username !== undefined
+                ? await context.linkageStore.findByDiscourseUsername(
+                    input.username
+                  )
+                : await context.linkageStore.findByDiscourseUserId(
+                    input.userId!
+                  );
+
+            return { linkages: linkages.map(toLinkageSummary) };
           }
+        ),
 
-          console.log(
-            "[createPost] Creating post as:",
-            linkage.discourseUsername
-          );
+        getLinkagesBatch: os.getLinkagesBatch.handler(
+          async ({ input, errors }) => {
+            rateLimit(errors, "getLinkagesBatch", { ip: input.meta?.ip });
+            const log = requestLog("getLinkagesBatch", input.meta);
 
-          const postData = await context.discourseClient.createPost({
-            title: input.title,
-            raw: input.raw,
-            category: input.category,
-            username: linkage.discourseUsername,
-          });
+            const nearAccounts = Array.from(new Set(input.nearAccounts));
+            log.debug("Looking up accounts", { count: nearAccounts.length });
 
-          console.log("[createPost] Post created! ID:", postData.id);
+            const linkages = await context.linkageStore.getMany(nearAccounts);
+            const found = new Set(
+              linkages.map((linkage) => linkage.nearAccount)
+            );
 
-          return {
-            success: true,
-            postUrl: `${context.baseUrl}/t/${postData.topic_slug}/${postData.topic_id}`,
-            postId: postData.id,
-            topicId: postData.topic_id,
-          };
-        } catch (error: any) {
-          console.error("[createPost] Error:", error.message);
+            return {
+              linkages: linkages.map(toLinkageSummary),
+              notFound: nearAccounts.filter((account) => !found.has(account)),
+            };
+          }
+        ),
+
+        adminListLinkages: os.adminListLinkages.handler(
+          async ({ input, errors }) => {
+            rateLimit(errors, "adminListLinkages", { ip: input.meta?.ip });
+
+            const actor = adminActor(input);
+            if (!actor) {
+              throw errors.UNAUTHORIZED({
+                message: "Invalid admin key",
+                data: { apiKeyProvided: !!input.adminKey, authType: "apiKey" },
+              });
+            }
+
+            const { adminKey, moderator, meta, page, perPage, ...filters } =
+              input;
+            const linkages = filterLinkages(
+              await context.linkageStore.getAll(),
+              filters
+            );
+            const start = page * perPage;
+
+            await context.auditLog.record({
+              actor,
+              action: "admin.list-linkages",
+              target: "*",
+              meta,
+              details: { filters, page, perPage, total: linkages.length },
+            });
 
-          if (error && typeof error === "object" && "code" in error) {
-            throw error;
+            return {
+              linkages: linkages
+                .slice(start, start + perPage)
+                .map(toLinkageSummary),
+              total: linkages.length,
+              page,
+              hasMore: start + perPage < linkages.length,
+            };
           }
+        ),
+
+        adminExportLinkages: os.adminExportLinkages.handler(
+          async ({ input, errors }) => {
+            rateLimit(errors, "adminExportLinkages", { ip: input.meta?.ip });
+
+            const actor = adminActor(input);
+            if (!actor) {
+              throw errors.UNAUTHORIZED({
+                message: "Invalid admin key",
+                data: { apiKeyProvided: !!input.adminKey, authType: "apiKey" },
+              });
+            }
+
+            const { adminKey, moderator, meta, format, ...filters } = input;
+            const linkages = filterLinkages(
+              await context.linkageStore.getAll(),
+              filters
+            );
+
+            await context.auditLog.record({
+              actor,
+              action: "admin.export-linkages",
+              target: "*",
+              meta,
+              details: { filters, format, count: linkages.length },
+            });
 
-          let errorMessage = error.message || "Failed to create post";
-          if (error.message?.includes("You are not permitted")) {
-            errorMessage =
-              "You do not have permission to post in this category";
-          } else if (error.message?.includes("Body is too short")) {
-            errorMessage = "Post content is too short";
-          } else if (error.message?.includes("Title is too short")) {
-            errorMessage = "Title is too short (minimum 15 characters)";
+            const date = new Date().toISOString().substring(0, 10);
+            return {
+              format,
+              contentType: format === "csv" ? "text/csv" : "application/json",
+              filename: `linkages-${date}.${format}`,
+              count: linkages.length,
+              data:
+                format === "csv"
+                  ? toCsv(linkages)
+                  : JSON.stringify(linkages.map(toLinkageSummary), null, 2),
+            };
           }
+        ),
+
+        adminForceUnlink: os.adminForceUnlink.handler(
+          async ({ input, errors }) => {
+            rateLimit(errors, "adminForceUnlink", { ip: input.meta?.ip });
+            const log = requestLog("adminForceUnlink", input.meta);
+
+            const actor = adminActor(input);
+            if (!actor) {
+              throw errors.UNAUTHORIZED({
+                message: "Invalid admin key",
+                data: { apiKeyProvided: !!input.adminKey, authType: "apiKey" },
+              });
+            }
+
+            const linkage = await context.linkageStore.get(input.nearAccount);
+            if (!linkage) {
+              throw errors.NOT_FOUND({
+                message: "No linked Discourse account found for this account",
+                data: { resource: "linkage", resourceId: input.nearAccount },
+              });
+            }
+
+            // Unlike a user unlink, an unreachable Discourse doesn't block removal
+            let keyRevoked = true;
+            try {
+              await context.discourseClient.revokeUserApiKey(
+                linkage.userApiKey
+              );
+            } catch (revokeError: any) {
+              log.warn("User API key revocation failed", {
+                nearAccount: linkage.nearAccount,
+                error: revokeError,
+              });
+              keyRevoked = false;
+            }
+
+            await context.linkageStore.delete(linkage.nearAccount);
+            await context.linkageStore.ensurePrimary(linkage.discourseUserId);
+
+            const entry = await context.auditLog.record({
+              actor,
+              action: "admin.force-unlink",
+              target: linkage.nearAccount,
+              meta: input.meta,
+              details: {
+                reason: input.reason,
+                discourseUsername: linkage.discourseUsername,
+                discourseUserId: linkage.discourseUserId,
+                keyRevoked,
+              },
+            });
 
-          return {
-            success: false,
-            error: errorMessage,
-          };
-        }
-      }),
+            return {
+              success: true,
+              nearAccount: linkage.nearAccount,
+              discourseUsername: linkage.discourseUsername,
+              keyRevoked,
+              auditId: entry.id,
+            };
+          }
+        ),
+
+        getAuditHistory: os.getAuditHistory.handler(
+          async ({ input, errors }) => {
+            rateLimit(errors, "getAuditHistory", { ip: input.meta?.ip });
+
+            const actor = adminActor(input);
+            if (!actor) {
+              throw errors.UNAUTHORIZED({
+                message: "Invalid admin key",
+                data: { apiKeyProvided: !!input.adminKey, authType: "apiKey" },
+              });
+            }
+
+            // One extra entry tells whether there is another page
+            const entries = await context.auditLog.history({
+              target: input.nearAccount,
+              beforeId: input.beforeId,
+              limit: input.limit + 1,
+            });
 
-      getLinkage: os.getLinkage.handler(async ({ input }) => {
-        console.log("[getLinkage] Checking linkage for:", input.nearAccount);
-        const linkage = context.linkageStore.get(input.nearAccount);
+            await context.auditLog.record({
+              actor,
+              action: "admin.audit-history",
+              target: input.nearAccount ?? "*",
+              meta: input.meta,
+              details: { beforeId: input.beforeId, verify: input.verify },
+            });
+
+            return {
+              entries: entries
+                .slice(0, input.limit)
+                .map((entry) =>
+                  input.verify
+                    ? { ...entry, verification: verifyAuditEvidence(entry) }
+                    : entry
+                ),
+              hasMore: entries.length > input.limit,
+            };
+          }
+        ),
+
+        handleDiscourseWebhook: os.handleDiscourseWebhook.handler(
+          async ({ input, errors }) => {
+            rateLimit(errors, "handleDiscourseWebhook", { ip: input.meta?.ip });
+            const log = requestLog("handleDiscourseWebhook", input.meta);
+
+            log.info("Received webhook", {
+              event: input.event,
+              eventId: input.eventId,
+            });
+
+            if (!context.webhookSecret) {
+              throw errors.FORBIDDEN({
+                message: "Discourse webhooks are not configured",
+                data: { action: "handle-webhook" },
+              });
+            }
+
+            if (
+              !verifyWebhookSignature(
+                input.body,
+                input.signature,
+                context.webhookSecret
+              )
+            ) {
+              throw errors.UNAUTHORIZED({
+                message: "Invalid webhook signature",
+                data: { apiKeyProvided: true, authType: "apiKey" },
+              });
+            }
+
+            const result = {
+              event: input.event,
+              handled: false,
+              linkagesUpdated: 0,
+              linkagesRemoved: 0,
+            };
+
+            // Discourse redelivers failed events with the same id. The id is
+            // only claimed once the event is applied, so a delivery that
+            // failed halfway can still be retried.
+            const replayKey = input.eventId && `webhook:${input.eventId}`;
+            if (replayKey && (await context.replayCache.has(replayKey))) {
+              log.info("Webhook already processed", { eventId: input.eventId });
+              return result;
+            }
+            const markProcessed = async () => {
+              if (replayKey) {
+                await context.replayCache.claim(replayKey, 24 * 60 * 60 * 1000);
+              }
+            };
+
+            let user;
+            try {
+              user = webhookUser(input.body);
+            } catch (error) {
+              if (error instanceof WebhookBodyError) {
+                throw errors.BAD_REQUEST({
+                  message: error.message,
+                  data: { invalidFields: ["body"] },
+                });
+              }
+              throw error;
+            }
+
+            const update = user
+              ? linkageUpdateForEvent(input.event, user)
+              : null;
+            if (!user || !update || update.type === "ignore") {
+              await markProcessed();
+              return result;
+            }
+
+            const linkages = await context.linkageStore.findByDiscourseUserId(
+              user.id
+            );
+            for (const linkage of linkages) {
+              if (update.type === "remove") {
+                log.info("Removing linkage", {
+                  nearAccount: linkage.nearAccount,
+                  reason: update.reason,
+                });
+                await context.linkageStore.delete(linkage.nearAccount);
+                result.linkagesRemoved++;
+                continue;
+              }
+
+              const updated = applyLinkageUpdate(linkage, update);
+              if (updated) {
+                await context.linkageStore.set(linkage.nearAccount, updated);
+                result.linkagesUpdated++;
+              }
+            }
+
+            await markProcessed();
+            return { ...result, handled: true };
+          }
+        ),
 
-        if (linkage) {
-          console.log("[getLinkage] Found:", linkage.discourseUsername);
-          // Don't expose the User API key
+        getHealth: os.getHealth.handler(async () => {
+          const { state, ...circuit } =
+            context.discourseClient.breaker.snapshot();
           return {
-            nearAccount: linkage.nearAccount,
-            discourseUsername: linkage.discourseUsername,
-            verifiedAt: linkage.verifiedAt,
+            status:
+              state === "closed" ? ("ok" as const) : ("degraded" as const),
+            discourse: { circuit: state, ...circuit },
           };
-        } else {
-          console.log("[getLinkage] Not found");
-        }
+        }),
+      });
+    },
+  });
+}
 
-        return linkage;
-      }),
-    });
-  },
-});
+export default createDiscoursePlugin();
@@ -0,0 +1,247 @@
+import { createLocalPluginRuntime } from "every-plugin/testing";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { AccessKeyPermission, AccessKeyResolver } from "./auth";
+import { createDiscoursePlugin } from "./index";
+import { MockDiscourse, type MockUser } from "./testing/mock-discourse";
+import {
+  createTestSigner,
+  signAction,
+  type TestSigner,
+} from "./testing/near-tokens";
+
+const RECIPIENT = "social.near";
+const CLIENT_ID = "discourse-near-plugin";
+const TIMEOUT_MS = 500;
+
+const POST = {
+  title: "Hello from a NEAR account",
+  raw: "Posted end to end through the mock forum.",
+};
+
+// Knows the keys of the signers created here, so nothing asks FastNear or
+// an RPC node whether they belong to their accounts
+class TestKeys implements AccessKeyResolver {
+  private keys = new Set<string>();
+
+  add(signer: TestSigner): TestSigner {
+    this.keys.add(
+      `${signer.accountId}:${signer.keyPair.getPublicKey().toString()}`
+    );
+    return signer;
+  }
+
+  async getAccessKey(
+    accountId: string,
+    publicKey: string
+  ): Promise<AccessKeyPermission | null> {
+    return this.keys.has(`${accountId}:${publicKey}`)
+      ? { type: "full-access" }
+      : null;
+  }
+}
+
+let discourse: MockDiscourse;
+let alice: MockUser;
+let keys: TestKeys;
+let signer: TestSigner;
+let runtime: ReturnType<typeof createLocalPluginRuntime>;
+
+beforeEach(async () => {
+  discourse = new MockDiscourse("mock-system-key");
+  alice = discourse.addUser("alice");
+  discourse.signIn(alice);
+  await discourse.start();
+
+  keys = new TestKeys();
+  signer = keys.add(createTestSigner("alice.testnet"));
+});
+
+afterEach(async () => {
+  await runtime?.shutdown();
+  await discourse.stop();
+});
+
+// A fresh plugin per test, so breaker state and replay keys don't leak
+async function startPlugin() {
+  runtime = createLocalPluginRuntime(
+    {
+      registry: {
+        "discourse-near": {
+          remoteUrl: "http://localhost:3001/remoteEntry.js",
+          version: "0.0.1",
+        },
+      },
+      secrets: {
+        DISCOURSE_API_KEY: "mock-system-key",
+        ENCRYPTION_KEY: "e2e-encryption-key-that-is-long-enough",
+      },
+    },
+    { "discourse-near": createDiscoursePlugin({ accessKeyResolver: keys }) }
+  );
+
+  const { client } = await runtime.usePlugin("discourse-near", {
+    secrets: {
+      discourseApiKey: "{{DISCOURSE_API_KEY}}",
+      encryptionKey: "{{ENCRYPTION_KEY}}",
+    },
+    variables: {
+      discourseBaseUrl: discourse.baseUrl,
+      clientId: CLIENT_ID,
+      recipient: RECIPIENT,
+      linkageCheckIntervalMinutes: 0,
+      discourseTimeoutMs: TIMEOUT_MS,
+      discourseMaxRetries: 0,
+      discourseMaxRetryAfterSeconds: 1,
+      circuitBreakerThreshold: 2,
+      circuitBreakerCooldownSeconds: 60,
+      logLevel: "error",
+    },
+  });
+  return client;
+}
+
+type PluginClient = Awaited<ReturnType<typeof startPlugin>>;
+
+// The manual flow: the browser approves on Discourse, the app signs the
+// nonce and hands both to completeLink
+async function link(client: PluginClient, as = signer) {
+  const { authUrl, nonce } = await client.getUserApiAuthUrl({
+    clientId: CLIENT_ID,
+  });
+  const response = await fetch(authUrl);
+  const { payload } = (await response.json()) as { payload: string };
+  const authToken = await signAction(
+    as,
+    "complete-link",
+    { nonce },
+    { recipient: RECIPIENT }
+  );
+  return client.completeLink({ payload, nonce, authToken });
+}
+
+async function createPost(client: PluginClient, as = signer) {
+  const authToken = await signAction(as, "create-post", POST, {
+    recipient: RECIPIENT,
+  });
+  return client.createPost({ ...POST, authToken });
+}
+
+function postRequests() {
+  return discourse.requests.filter((request) => request.path === "/posts.json")
+    .length;
+}
+
+describe("link and post", () => {
+  it("links a NEAR account and posts as its Discourse user", async () => {
+    const client = await startPlugin();
+
+    await expect(link(client)).resolves.toMatchObject({
+      success: true,
+      nearAccount: "alice.testnet",
+      discourseUsername: "alice",
+      isPrimary: true,
+    });
+
+    const result = await createPost(client);
+    expect(result.success).toBe(true);
+    expect(discourse.posts.get(result.postId!)).toMatchObject({
+      username: "alice",
+      raw: POST.raw,
+    });
+  });
+
+  it("refuses a link signed by a key the account doesn't hold", async () => {
+    const client = await startPlugin();
+
+    await expect(
+      link(client, createTestSigner("alice.testnet"))
+    ).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+
+  it("reports a revoked User API key", async () => {
+    const client = await startPlugin();
+    await link(client);
+    discourse.revokeUserApiKeys(alice);
+
+    await expect(createPost(client)).rejects.toMatchObject({
+      code: "DISCOURSE_AUTH_REVOKED",
+    });
+  });
+
+  it("passes on Discourse's validation errors", async () => {
+    const client = await startPlugin();
+    await link(client);
+    discourse.inject({
+      path: "/posts.json",
+      status: 422,
+      body: {
+        errors: ["Title has already been used"],
+        error_type: "invalid_parameters",
+      },
+    });
+
+    await expect(createPost(client)).rejects.toMatchObject({
+      code: "DISCOURSE_VALIDATION",
+      data: { errors: ["Title has already been used"] },
+    });
+  });
+
+  it("reports a rate limit longer than it will wait out", async () => {
+    const client = await startPlugin();
+    await link(client);
+    discourse.inject({
+      path: "/posts.json",
+      status: 429,
+      headers: { "Retry-After": "60" },
+      body: {
+        errors: [
+          "You've performed this action too many times. Please wait 60 seconds before trying again.",
+        ],
+        error_type: "rate_limit",
+        extras: { wait_seconds: 60 },
+      },
+    });
+
+    await expect(createPost(client)).rejects.toMatchObject({
+      code: "RATE_LIMITED",
+      data: { retryAfter: 60 },
+    });
+  });
+
+  it("gives up on a request that outlives the timeout", async () => {
+    const client = await startPlugin();
+    await link(client);
+    discourse.inject({ path: "/posts.json", delayMs: TIMEOUT_MS * 2 });
+
+    await expect(createPost(client)).rejects.toMatchObject({
+      code: "SERVICE_UNAVAILABLE",
+      message: expect.stringContaining(`within ${TIMEOUT_MS}ms`),
+    });
+  });
+
+  it("stops calling Discourse once the circuit opens", async () => {
+    const client = await startPlugin();
+    await link(client);
+    for (let i = 0; i < 2; i++) {
+      discourse.inject({
+        path: "/posts.json",
+        status: 503,
+        body: { errors: ["Service Unavailable"] },
+      });
+      await expect(createPost(client)).rejects.toMatchObject({
+        code: "SERVICE_UNAVAILABLE",
+      });
+    }
+    const sent = postRequests();
+
+    await expect(createPost(client)).rejects.toMatchObject({
+      code: "SERVICE_UNAVAILABLE",
+      message: expect.stringContaining("requests are paused"),
+    });
+    expect(postRequests()).toBe(sent);
+    await expect(client.getHealth({})).resolves.toMatchObject({
+      status: "degraded",
+      discourse: { circuit: "open" },
+    });
+  });
+});
@@ -0,0 +1,108 @@
+// ============================================================================
+// STRUCTURED LOGGER
+// ============================================================================
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+// Field names whose values are credentials or signed material. Matched at the
+// end of the name, so `userApiKey`, `authToken` and `previousSecrets` count
+// while fields about a key, like `keyLookup` or `keyRevoked`, stay readable.
+const SENSITIVE_FIELD =
+  /(key|token|secret|signature|password|payload|authorization|cookie)s?$/i;
+
+const PEM_BLOCK = /-----BEGIN [A-Z ]+-----[\s\S]*?-----END [A-Z ]+-----/g;
+
+const REDACTED = "[REDACTED]";
+
+// Copies `value` with sensitive fields replaced, and errors reduced to the
+// fields worth logging (never their cause chain or request objects)
+function redact(value: unknown, depth = 0): unknown {
+  if (value instanceof Error) {
+    const error = value as Error & { code?: unknown; status?: unknown };
+    return {
+      name: error.name,
+      message: redact(error.message, depth + 1),
+      ...(error.code !== undefined && { code: error.code }),
+      ...(error.status !== undefined && { status: error.status }),
+    };
+  }
+  if (typeof value === "string") {
+    return value.replace(PEM_BLOCK, REDACTED);
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (depth >= 5) {
+    return "[Truncated]";
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+
+  const copy: LogFields = {};
+  for (const [field, fieldValue] of Object.entries(value)) {
+    copy[field] =
+      SENSITIVE_FIELD.test(field) && fieldValue != null
+        ? REDACTED
+        : redact(fieldValue, depth + 1);
+  }
+  return copy;
+}
+
+/**
+ * Writes one JSON object per line: `time`, `level`, `msg`, then the bound
+ * and per-call fields. Warnings and errors go to stderr. Children share
+ * their parent's level, so setting it on the root logger applies everywhere.
+ */
+export class Logger {
+  constructor(
+    private bindings: LogFields = {},
+    private state: { level: LogLevel } = { level: "info" }
+  ) {}
+
+  child(bindings: LogFields): Logger {
+    return new Logger({ ...this.bindings, ...bindings }, this.state);
+  }
+
+  setLevel(level: LogLevel): void {
+    this.state.level = level;
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.write("debug", msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.write("info", msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.write("warn", msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.write("error", msg, fields);
+  }
+
+  private write(level: LogLevel, msg: string, fields?: LogFields): void {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.state.level)) {
+      return;
+    }
+
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      msg,
+      ...(redact({ ...this.bindings, ...fields }) as LogFields),
+    });
+    const stream =
+      level === "warn" || level === "error" ? process.stderr : process.stdout;
+    stream.write(line + "\n");
+  }
+}
+
+export const logger = new Logger();
@@ -0,0 +1,188 @@
+// ============================================================================
+// PROMETHEUS METRICS
+// ============================================================================
+
+type Labels = Record<string, string>;
+
+// Latency buckets in seconds, from a cache hit to a slow Discourse call
+const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+function labelKey(labelNames: string[], labels: Labels): string {
+  return labelNames.map((name) => labels[name] ?? "").join("\u0000");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) =>
+      `${name}="${value
+        .replace(/\\/g, "\\\\")
+        .replace(/\n/g, "\\n")
+        .replace(/"/g, '\\"')}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+export class Counter {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private labelNames: string[]
+  ) {}
+
+  inc(labels: Labels, value = 1): void {
+    const key = labelKey(this.labelNames, labels);
+    const series = this.values.get(key);
+    if (series) {
+      series.value += value;
+    } else {
+      this.values.set(key, { labels, value });
+    }
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values.values()].map(
+        ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+      ),
+    ];
+  }
+}
+
+export class Histogram {
+  private values = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private labelNames: string[],
+    private buckets: number[] = DEFAULT_BUCKETS
+  ) {}
+
+  observe(labels: Labels, seconds: number): void {
+    const key = labelKey(this.labelNames, labels);
+    let series = this.values.get(key);
+    if (!series) {
+      series = {
+        labels,
+        counts: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.values.set(key, series);
+    }
+
+    this.buckets.forEach((bound, i) => {
+      if (seconds <= bound) {
+        series!.counts[i]!++;
+      }
+    });
+    series.sum += seconds;
+    series.count++;
+  }
+
+  // Starts a timer; calling the result records the elapsed time
+  startTimer(labels: Labels): () => number {
+    const start = performance.now();
+    return () => {
+      const seconds = (performance.now() - start) / 1000;
+      this.observe(labels, seconds);
+      return seconds;
+    };
+  }
+
+  render(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+    ];
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({
+            ...labels,
+            le: String(bound),
+          })} ${counts[i]}`
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({
+          ...labels,
+          le: "+Inf",
+        })} ${count}`,
+        `${this.name}_sum${formatLabels(labels)} ${sum}`,
+        `${this.name}_count${formatLabels(labels)} ${count}`
+      );
+    }
+    return lines;
+  }
+}
+
+/** Holds every metric of the process and renders the text exposition format. */
+export class MetricsRegistry {
+  private metrics: Array<Counter | Histogram> = [];
+
+  counter(name: string, help: string, labelNames: string[]): Counter {
+    const counter = new Counter(name, help, labelNames);
+    this.metrics.push(counter);
+    return counter;
+  }
+
+  histogram(
+    name: string,
+    help: string,
+    labelNames: string[],
+    buckets?: number[]
+  ): Histogram {
+    const histogram = new Histogram(name, help, labelNames, buckets);
+    this.metrics.push(histogram);
+    return histogram;
+  }
+
+  render(): string {
+    return this.metrics.flatMap((metric) => metric.render()).join("\n") + "\n";
+  }
+}
+
+export const metrics = new MetricsRegistry();
+
+// Requests served, labelled with the route's path (not the raw URL, which
+// would give every typo its own series)
+export const httpRequestsTotal = metrics.counter(
+  "http_requests_total",
+  "HTTP requests handled, by route, method and status code",
+  ["route", "method", "status"]
+);
+
+export const httpRequestDuration = metrics.histogram(
+  "http_request_duration_seconds",
+  "HTTP request latency in seconds, by route",
+  ["route", "method"]
+);
+
+// Calls to the Discourse API; `status` is "error" when no response arrived
+export const discourseRequestsTotal = metrics.counter(
+  "discourse_requests_total",
+  "Requests made to the Discourse API, by operation and status code",
+  ["operation", "status"]
+);
+
+export const discourseRequestDuration = metrics.histogram(
+  "discourse_request_duration_seconds",
+  "Discourse API latency in seconds, by operation",
+  ["operation"]
+);
+
+export const discourseRetriesTotal = metrics.counter(
+  "discourse_retries_total",
+  "Discourse API requests retried, by operation and reason",
+  ["operation", "reason"]
+);
@@ -0,0 +1,48 @@
+import { logger } from "./logger";
+
+// ============================================================================
+// FIXED-WINDOW RATE LIMITER
+// ============================================================================
+
+export type RateLimitScope = "ip" | "account" | "route" | "nonces";
+
+/**
+ * Counts requests per key in fixed windows. Counters live in process
+ * memory, so each server process enforces its limits separately.
+ */
+export class RateLimiter {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+  private log = logger.child({ component: "RateLimiter" });
+
+  constructor(private windowMs: number) {}
+
+  /**
+   * Counts one request against `key`. Returns 0 while within `limit`,
+   * otherwise the seconds until the window resets.
+   */
+  hit(key: string, limit: number): number {
+    const now = Date.now();
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(key, window);
+    }
+
+    window.count++;
+    return window.count > limit ? Math.ceil((window.resetAt - now) / 1000) : 0;
+  }
+
+  cleanup(): void {
+    const now = Date.now();
+    let cleaned = 0;
+    for (const [key, window] of this.windows.entries()) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+        cleaned++;
+      }
+    }
+    if (cleaned > 0) {
+      this.log.debug("Cleaned up expired windows", { count: cleaned });
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { backoffDelay, CircuitBreaker, retryAfterSeconds } from "./resilience";
+
+const COOLDOWN_MS = 30000;
+
+function withRetryAfter(value: string) {
+  return new Response(null, { headers: { "Retry-After": value } });
+}
+
+// A breaker that has just opened after two failures
+function openBreaker() {
+  const breaker = new CircuitBreaker(2, COOLDOWN_MS);
+  breaker.recordFailure();
+  breaker.recordFailure();
+  return breaker;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2025-10-01T12:00:00.000Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("CircuitBreaker", () => {
+  it("stays closed below the threshold", () => {
+    const breaker = new CircuitBreaker(2, COOLDOWN_MS);
+    breaker.recordFailure();
+
+    expect(breaker.acquire()).toBe(0);
+    expect(breaker.snapshot()).toEqual({
+      state: "closed",
+      consecutiveFailures: 1,
+    });
+  });
+
+  it("counts consecutive failures only", () => {
+    const breaker = new CircuitBreaker(2, COOLDOWN_MS);
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.snapshot().state).toBe("closed");
+  });
+
+  it("opens at the threshold and reports the time left", () => {
+    const breaker = openBreaker();
+
+    expect(breaker.acquire()).toBe(30);
+    vi.advanceTimersByTime(COOLDOWN_MS - 1500);
+    expect(breaker.acquire()).toBe(2);
+    expect(breaker.snapshot()).toEqual({
+      state: "open",
+      consecutiveFailures: 2,
+      openedAt: "2025-10-01T12:00:00.000Z",
+      retryAt: "2025-10-01T12:00:30.000Z",
+    });
+  });
+
+  it("lets a single trial through once cooled down", () => {
+    const breaker = openBreaker();
+    vi.advanceTimersByTime(COOLDOWN_MS);
+
+    expect(breaker.snapshot().state).toBe("half_open");
+    expect(breaker.acquire()).toBe(0);
+    expect(breaker.acquire()).toBeGreaterThan(0);
+  });
+
+  it("closes when the trial succeeds", () => {
+    const breaker = openBreaker();
+    vi.advanceTimersByTime(COOLDOWN_MS);
+    breaker.acquire();
+    breaker.recordSuccess();
+
+    expect(breaker.acquire()).toBe(0);
+    expect(breaker.snapshot()).toEqual({
+      state: "closed",
+      consecutiveFailures: 0,
+    });
+  });
+
+  it("re-opens for another cooldown when the trial fails", () => {
+    const breaker = openBreaker();
+    vi.advanceTimersByTime(COOLDOWN_MS);
+    breaker.acquire();
+    breaker.recordFailure();
+
+    expect(breaker.acquire()).toBe(30);
+    expect(breaker.snapshot()).toMatchObject({
+      state: "open",
+      retryAt: "2025-10-01T12:01:00.000Z",
+    });
+  });
+});
+
+describe("backoffDelay", () => {
+  it("stays within zero and the doubled base", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(backoffDelay(3, 200)).toBe(0);
+
+    vi.spyOn(Math, "random").mockReturnValue(0.999999);
+    expect(backoffDelay(0, 200)).toBeLessThan(200);
+    expect(backoffDelay(3, 200)).toBeLessThan(1600);
+    expect(backoffDelay(3, 200)).toBeGreaterThan(1599);
+  });
+});
+
+describe("retryAfterSeconds", () => {
+  it("reads seconds", () => {
+    expect(retryAfterSeconds(withRetryAfter("120"))).toBe(120);
+    expect(retryAfterSeconds(withRetryAfter("0"))).toBe(0);
+  });
+
+  it("reads an HTTP date as the seconds until then", () => {
+    expect(
+      retryAfterSeconds(withRetryAfter("Wed, 01 Oct 2025 12:01:30 GMT"))
+    ).toBe(90);
+  });
+
+  it("treats a date in the past as no wait", () => {
+    expect(
+      retryAfterSeconds(withRetryAfter("Wed, 01 Oct 2025 11:00:00 GMT"))
+    ).toBe(0);
+  });
+
+  it("ignores a missing or unreadable header", () => {
+    expect(retryAfterSeconds(new Response(null))).toBeUndefined();
+    expect(retryAfterSeconds(withRetryAfter("soon"))).toBeUndefined();
+  });
+});
@@ -0,0 +1,109 @@
+// ============================================================================
+// CIRCUIT BREAKER
+// ============================================================================
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: string;
+  retryAt?: string;
+}
+
+/**
+ * Stops calling a dependency after `threshold` consecutive failures. Once
+ * `cooldownMs` has passed, a single trial request is let through: success
+ * closes the circuit again, failure re-opens it for another cooldown.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private threshold: number, private cooldownMs: number) {}
+
+  /**
+   * Returns 0 when a request may go out, otherwise the seconds until the
+   * next trial request is allowed.
+   */
+  acquire(): number {
+    if (this.state === "closed") {
+      return 0;
+    }
+
+    const retryIn = this.openedAt + this.cooldownMs - Date.now();
+    if (this.state === "open" && retryIn <= 0) {
+      this.state = "half_open";
+    }
+    if (this.state === "half_open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return 0;
+    }
+    return Math.max(1, Math.ceil(retryIn / 1000));
+  }
+
+  recordSuccess(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+    if (
+      this.state === "half_open" ||
+      this.consecutiveFailures >= this.threshold
+    ) {
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+
+  snapshot(): CircuitSnapshot {
+    if (this.state === "closed") {
+      return { state: "closed", consecutiveFailures: this.consecutiveFailures };
+    }
+    const cooledDown = Date.now() >= this.openedAt + this.cooldownMs;
+    return {
+      state: cooledDown ? "half_open" : this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: new Date(this.openedAt).toISOString(),
+      retryAt: new Date(this.openedAt + this.cooldownMs).toISOString(),
+    };
+  }
+}
+
+// ============================================================================
+// RETRIES
+// ============================================================================
+
+/**
+ * Exponential backoff with full jitter: a random delay up to
+ * `baseMs * 2^attempt`, so clients that failed together don't retry together.
+ */
+export function backoffDelay(attempt: number, baseMs: number): number {
+  return Math.random() * baseMs * 2 ** attempt;
+}
+
+/** Reads `Retry-After` as seconds, whether given as seconds or a date. */
+export function retryAfterSeconds(response: Response): number | undefined {
+  const header = response.headers.get("retry-after");
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date)
+    ? undefined
+    : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -1,27 +1,173 @@
 import { createLocalPluginRuntime } from "every-plugin/testing";
+import { randomBytes, randomUUID } from "crypto";
 import { createServer, IncomingMessage, ServerResponse } from "http";
-import DiscoursePlugin from "./index";
+import {
+  applyCors,
+  applySecurityHeaders,
+  clearStateCookie,
+  contractRoutes,
+  DOCS_CONTENT_SECURITY_POLICY,
+  errorStatus,
+  HttpError,
+  openApiDocument,
+  pageContentSecurityPolicy,
+  parseCorsOrigins,
+  readBody,
+  readJsonBody,
+  readStateCookie,
+  renderDocsPage,
+  sendError,
+  sendJson,
+  stateCookie,
+} from "./http";
+import DiscoursePlugin, { contract } from "./index";
+import { logger, LOG_LEVELS, type LogLevel } from "./logger";
+import { metrics, httpRequestDuration, httpRequestsTotal } from "./metrics";
 
 const pluginMap = {
   "discourse-near": DiscoursePlugin,
 } as const;
 
+const log = logger.child({ component: "Server" });
+
+// Served from the contract under /api; these three have endpoints of their
+// own below, since they take headers, a raw body or a browser redirect
+const DEDICATED_PROCEDURES = new Set([
+  "getHealth",
+  "completeAuthCallback",
+  "handleDiscourseWebhook",
+]);
+
+// Sent as file downloads rather than wrapped in JSON
+const DOWNLOAD_PROCEDURES = new Set(["adminExportLinkages"]);
+
+const API_ROUTES = contractRoutes(contract, "/api").filter(
+  (route) => !DEDICATED_PROCEDURES.has(route.procedure)
+);
+
+const API_ROUTES_BY_PATH = new Map(
+  API_ROUTES.map((route) => [route.path, route])
+);
+
+// Every route the server answers: printed at startup and used as the
+// metrics label, so unknown paths share a single "unmatched" series
+const ENDPOINTS: Array<[method: string, path: string, description: string]> = [
+  ["GET", "/health", "Health check"],
+  ["GET", "/metrics", "Prometheus metrics"],
+  ["GET", "/openapi.json", "OpenAPI document"],
+  ["GET", "/docs", "API reference"],
+  ["GET", "/auth/callback", "Discourse auth redirect"],
+  ["POST", "/webhooks/discourse", "Discourse user events"],
+  ...API_ROUTES.map((route): [string, string, string] => [
+    route.method,
+    route.path,
+    route.summary ?? route.procedure,
+  ]),
+];
+
+const KNOWN_PATHS = new Set(ENDPOINTS.map(([, path]) => path));
+
+const DOCS_TITLE = "Discourse NEAR Plugin";
+
+function parseLogLevel(value: string | undefined): LogLevel {
+  return LOG_LEVELS.find((level) => level === value) ?? "info";
+}
+
+// Keeps a caller-supplied X-Request-Id (e.g. from a proxy) if it looks sane
+function requestIdFor(req: IncomingMessage): string {
+  const header = req.headers["x-request-id"];
+  return typeof header === "string" && /^[\w.:-]{1,128}$/.test(header)
+    ? header
+    : randomUUID();
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Reverse proxies in front of the server: TRUST_PROXY=true for one, or a count
+function trustedProxyHops(value: string | undefined): number {
+  if (value === "true") {
+    return 1;
+  }
+  const hops = Number(value);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+}
+
+// Request metadata for the audit log and logs. Each trusted proxy appends the
+// address it was connected from to X-Forwarded-For, so the client IP is the
+// entry that many hops from the right; entries left of it came from the
+// client itself and could say anything.
+function requestMeta(req: IncomingMessage, requestId: string) {
+  const hops = trustedProxyHops(process.env.TRUST_PROXY);
+  const forwarded = req.headers["x-forwarded-for"];
+  const chain =
+    typeof forwarded === "string"
+      ? forwarded.split(",").map((entry) => entry.trim())
+      : [];
+  const ip =
+    hops > 0 && chain.length > 0
+      ? chain[Math.max(chain.length - hops, 0)]
+      : req.socket.remoteAddress;
+  return { ip, userAgent: req.headers["user-agent"], requestId };
+}
+
+// `title` and `body` must already be escaped; inline scripts in `body` need
+// the same `nonce` to run under the page's CSP
+function renderCallbackPage(
+  title: string,
+  body: string,
+  nonce: string
+): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>${title}</title>
+      <style nonce="${nonce}">
+        body { font-family: system-ui; max-width: 600px; margin: 100px auto; padding: 20px; text-align: center; }
+        .success { background: #d4edda; color: #155724; border: 1px solid #c3e6cb; padding: 20px; border-radius: 8px; }
+        .key { background: #f4f4f4; padding: 15px; border-radius: 4px; word-break: break-all; font-family: monospace; margin: 15px 0; font-size: 12px; }
+        .missing { color: red; }
+        button { background: #4CAF50; color: white; border: none; padding: 12px 24px; border-radius: 4px; cursor: pointer; margin: 10px 5px; }
+      </style>
+    </head>
+    <body>
+      <div class="success">
+        <h1>${title}</h1>
+        ${body}
+      </div>
+    </body>
+    </html>
+  `;
+}
+
 async function start() {
-  console.log("Starting Discourse NEAR Plugin Server with User API...\n");
+  logger.setLevel(parseLogLevel(process.env.LOG_LEVEL));
+  log.info("Starting Discourse NEAR plugin server");
 
   // Check environment variables
-  const requiredEnvVars = ["DISCOURSE_BASE_URL", "DISCOURSE_API_KEY"];
+  const requiredEnvVars = [
+    "DISCOURSE_BASE_URL",
+    "DISCOURSE_API_KEY",
+    "ENCRYPTION_KEY",
+  ];
 
   for (const envVar of requiredEnvVars) {
     if (!process.env[envVar]) {
-      console.error(`❌ Missing ${envVar} in .env`);
+      log.error("Missing environment variable", { name: envVar });
       process.exit(1);
     }
   }
 
-  console.log("✓ Environment variables loaded");
-  console.log(`✓ Discourse URL: ${process.env.DISCOURSE_BASE_URL}`);
-  console.log(`✓ Using Discourse User API (no OAuth app needed!)\n`);
+  log.info("Environment loaded", {
+    discourseBaseUrl: process.env.DISCOURSE_BASE_URL,
+  });
 
   // Create plugin runtime
   const runtime = createLocalPluginRuntime(
@@ -34,6 +180,10 @@ async function start() {
       },
       secrets: {
         DISCOURSE_API_KEY: process.env.DISCOURSE_API_KEY ?? "",
+        ENCRYPTION_KEY: process.env.ENCRYPTION_KEY ?? "",
+        PREVIOUS_ENCRYPTION_KEYS: process.env.PREVIOUS_ENCRYPTION_KEYS ?? "",
+        DISCOURSE_WEBHOOK_SECRET: process.env.DISCOURSE_WEBHOOK_SECRET ?? "",
+        ADMIN_API_KEY: process.env.ADMIN_API_KEY ?? "",
       },
     },
     pluginMap
@@ -43,141 +193,338 @@ async function start() {
   const { client, initialized } = await runtime.usePlugin("discourse-near", {
     secrets: {
       discourseApiKey: "{{DISCOURSE_API_KEY}}",
+      encryptionKey: "{{ENCRYPTION_KEY}}",
+      previousEncryptionKeys: "{{PREVIOUS_ENCRYPTION_KEYS}}",
+      webhookSecret: "{{DISCOURSE_WEBHOOK_SECRET}}",
+      adminApiKey: "{{ADMIN_API_KEY}}",
     },
     variables: {
       discourseBaseUrl: process.env.DISCOURSE_BASE_URL!,
-      discourseApiUsername: process.env.DISCOURSE_API_USERNAME || "system",
       applicationName: process.env.APPLICATION_NAME || "NEAR Account Link",
       clientId: process.env.CLIENT_ID || "discourse-near-plugin",
+      // JSON array of { clientId, applicationName, scopes, redirects }
+      clients: process.env.CLIENT_APPS
+        ? JSON.parse(process.env.CLIENT_APPS)
+        : [],
       recipient: process.env.DISCOURSE_RECIPIENT || "social.near",
+      impersonateUsers: process.env.DISCOURSE_IMPERSONATE_USERS === "true",
+      callbackUrl: process.env.PUBLIC_URL
+        ? `${process.env.PUBLIC_URL.replace(/\/$/, "")}/auth/callback`
+        : undefined,
+      allowedRedirects: (process.env.ALLOWED_AUTH_REDIRECTS || "")
+        .split(",")
+        .map((redirect) => redirect.trim())
+        .filter(Boolean),
+      keyPolicy:
+        process.env.NEAR_KEY_POLICY === "function-call"
+          ? "function-call"
+          : "full-access",
+      functionCallContracts: (process.env.NEAR_FUNCTION_CALL_CONTRACTS || "")
+        .split(",")
+        .map((contract) => contract.trim())
+        .filter(Boolean),
+      verifyKeysOnChain: process.env.NEAR_VERIFY_KEYS_ON_CHAIN === "true",
+      nearRpcUrl: process.env.NEAR_RPC_URL || "https://rpc.mainnet.near.org",
+      linkageCheckIntervalMinutes: Number(
+        process.env.LINKAGE_CHECK_INTERVAL_MINUTES ?? 60
+      ),
+      maxAccountsPerDiscourseUser: Number(
+        process.env.MAX_ACCOUNTS_PER_DISCOURSE_USER ?? 5
+      ),
+      rateLimitPerIp: Number(process.env.RATE_LIMIT_PER_IP ?? 120),
+      rateLimitPerAccount: Number(process.env.RATE_LIMIT_PER_ACCOUNT ?? 30),
+      // JSON object of route name → requests per minute, e.g. {"createPost":5}
+      routeRateLimits: process.env.ROUTE_RATE_LIMITS
+        ? JSON.parse(process.env.ROUTE_RATE_LIMITS)
+        : {},
+      maxPendingNonces: Number(process.env.MAX_PENDING_NONCES ?? 1000),
+      discourseTimeoutMs: Number(process.env.DISCOURSE_TIMEOUT_MS ?? 10000),
+      discourseMaxRetries: Number(process.env.DISCOURSE_MAX_RETRIES ?? 2),
+      discourseRetryBaseMs: Number(process.env.DISCOURSE_RETRY_BASE_MS ?? 200),
+      discourseMaxRetryAfterSeconds: Number(
+        process.env.DISCOURSE_MAX_RETRY_AFTER_SECONDS ?? 5
+      ),
+      circuitBreakerThreshold: Number(
+        process.env.CIRCUIT_BREAKER_THRESHOLD ?? 5
+      ),
+      circuitBreakerCooldownSeconds: Number(
+        process.env.CIRCUIT_BREAKER_COOLDOWN_SECONDS ?? 30
+      ),
+      storage: process.env.STORAGE_BACKEND === "sqlite" ? "sqlite" : "memory",
+      sqlitePath: process.env.SQLITE_PATH || "./discourse-near.db",
+      logLevel: parseLogLevel(process.env.LOG_LEVEL),
     },
   });
 
-  console.log("✓ Plugin initialized\n");
+  log.info("Plugin initialized");
+
+  // Applies to JSON and webhook bodies alike
+  const maxBodyBytes = Number(process.env.MAX_BODY_BYTES ?? 262144);
+
+  // Browser origins allowed to call the API; none unless configured
+  const corsPolicy = {
+    origins: parseCorsOrigins(process.env.CORS_ORIGINS),
+    allowCredentials: process.env.CORS_ALLOW_CREDENTIALS === "true",
+  };
+  if (corsPolicy.allowCredentials && corsPolicy.origins.includes("*")) {
+    log.error("CORS_ALLOW_CREDENTIALS needs explicit CORS_ORIGINS, not *");
+    process.exit(1);
+  }
+
+  // HSTS only makes sense when clients reach the server over HTTPS
+  const hstsMaxAge = Number(
+    process.env.HSTS_MAX_AGE ??
+      (process.env.PUBLIC_URL?.startsWith("https://") ? 31536000 : 0)
+  );
+
+  // Redirect flow cookies live as long as the nonce they belong to
+  const stateCookieOptions = {
+    secure: process.env.PUBLIC_URL?.startsWith("https://") ?? false,
+    maxAgeSeconds: 600,
+  };
 
-  // Create HTTP server
+  const openApi = await openApiDocument(contract, {
+    title: DOCS_TITLE,
+    version: process.env.npm_package_version || "0.0.0",
+    serverUrl: "/api",
+    include: (procedure) => !DEDICATED_PROCEDURES.has(procedure),
+  });
+
+  // Create HTTP server; the header limit also bounds the URL
   const server = createServer(
+    { maxHeaderSize: Number(process.env.MAX_HEADER_BYTES ?? 16384) },
     async (req: IncomingMessage, res: ServerResponse) => {
-      // CORS headers
-      res.setHeader("Access-Control-Allow-Origin", "*");
-      res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-      res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+      // Parse URL
+      const url = new URL(req.url!, `http://${req.headers.host}`);
 
-      // Handle preflight
+      const requestId = requestIdFor(req);
+      res.setHeader("X-Request-Id", requestId);
+      const requestLog = log.child({ requestId });
+
+      const route = KNOWN_PATHS.has(url.pathname) ? url.pathname : "unmatched";
+      const method = req.method ?? "GET";
+      const stopTimer = httpRequestDuration.startTimer({ route, method });
+      res.on("finish", () => {
+        const seconds = stopTimer();
+        const status = String(res.statusCode);
+        httpRequestsTotal.inc({ route, method, status });
+        requestLog.info("Request handled", {
+          method,
+          path: url.pathname,
+          status: res.statusCode,
+          durationMs: Math.round(seconds * 1000),
+        });
+      });
+
+      applySecurityHeaders(res, { hstsMaxAge });
+      applyCors(req, res, corsPolicy);
+
+      // Handle preflight; disallowed origins get no CORS headers
       if (req.method === "OPTIONS") {
-        res.statusCode = 200;
+        res.statusCode = 204;
         res.end();
         return;
       }
 
-      // Parse URL
-      const url = new URL(req.url!, `http://${req.headers.host}`);
-
-      // Health check
+      // Health check: "degraded" while Discourse requests are paused
       if (url.pathname === "/health") {
+        const health = await client.getHealth({});
         res.setHeader("Content-Type", "application/json");
         res.statusCode = 200;
         res.end(
           JSON.stringify({
-            status: "ok",
+            status: health.status,
             plugin: "discourse-near",
             authMethod: "user-api",
+            discourse: health.discourse,
           })
         );
         return;
       }
 
+      if (url.pathname === "/metrics" && req.method === "GET") {
+        res.setHeader("Content-Type", "text/plain; version=0.0.4");
+        res.statusCode = 200;
+        res.end(metrics.render());
+        return;
+      }
+
       if (url.pathname === "/auth/callback") {
         const payload = url.searchParams.get("payload");
+        const nonce = randomBytes(16).toString("base64");
+        res.setHeader(
+          "Content-Security-Policy",
+          pageContentSecurityPolicy(nonce)
+        );
+        const state = url.searchParams.get("state");
 
-        console.log("[Callback] Received User API callback");
-        console.log("[Callback] Payload:", payload ? "present" : "missing");
+        requestLog.info("Received User API callback", {
+          redirectFlow: !!state,
+        });
+        if (!payload) {
+          requestLog.warn("User API callback arrived without a payload");
+        }
 
+        // Redirect flow: finish linking (or hand off to the app's signing
+        // page) and send the browser back to the app
+        if (state) {
+          res.setHeader("Set-Cookie", clearStateCookie(state));
+          try {
+            const result = await client.completeAuthCallback({
+              state,
+              payload: payload ?? undefined,
+              stateVerifier: readStateCookie(req, state),
+              meta: requestMeta(req, requestId),
+            });
+            requestLog.info("Redirecting after callback", {
+              status: result.status,
+            });
+            res.statusCode = 302;
+            res.setHeader("Location", result.redirectUrl);
+            res.end();
+          } catch (error: any) {
+            requestLog.warn("Callback failed", { error });
+            res.setHeader("Content-Type", "text/html");
+            res.statusCode = 400;
+            res.end(
+              renderCallbackPage(
+                "Authorization Failed",
+                `<p>${escapeHtml(error.message || "Invalid auth state")}</p>`,
+                nonce
+              )
+            );
+          }
+          return;
+        }
+
+        // Manual flow: show the payload for copying into /api/auth/complete
         res.setHeader("Content-Type", "text/html");
         res.statusCode = 200;
-        res.end(`
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <title>Authorization Successful</title>
-      <style>
-        body { font-family: system-ui; max-width: 600px; margin: 100px auto; padding: 20px; text-align: center; }
-        .success { background: #d4edda; color: #155724; border: 1px solid #c3e6cb; padding: 20px; border-radius: 8px; }
-        .key { background: #f4f4f4; padding: 15px; border-radius: 4px; word-break: break-all; font-family: monospace; margin: 15px 0; font-size: 12px; }
-        button { background: #4CAF50; color: white; border: none; padding: 12px 24px; border-radius: 4px; cursor: pointer; margin: 10px 5px; }
-      </style>
-    </head>
-    <body>
-      <div class="success">
-        <h1>✅ Authorization Successful!</h1>
-        ${
-          payload
-            ? `
-          <div class="key">Encrypted Payload:<br>${payload.substring(
-            0,
-            100
+        res.end(
+          renderCallbackPage(
+            "✅ Authorization Successful!",
+            payload
+              ? `
+          <div class="key">Encrypted Payload:<br>${escapeHtml(
+            payload.substring(0, 100)
           )}...</div>
+          <textarea id="payload" readonly hidden>${escapeHtml(
+            payload
+          )}</textarea>
           <p><strong>Copy this payload and use it in /api/auth/complete</strong></p>
-          <button onclick="navigator.clipboard.writeText('${payload}').then(() => alert('Copied!'))">Copy Payload</button>
+          <button id="copy">Copy Payload</button>
+          <script nonce="${nonce}">
+            document.getElementById("copy").addEventListener("click", () => {
+              const payload = document.getElementById("payload").value;
+              navigator.clipboard.writeText(payload).then(() => alert("Copied!"));
+            });
+          </script>
         `
-            : '<p style="color:red;">No payload received!</p>'
+              : '<p class="missing">No payload received!</p>',
+            nonce
+          )
+        );
+        return;
+      }
+
+      // Discourse webhooks: the signature covers the raw body, so it is
+      // passed through unparsed
+      if (url.pathname === "/webhooks/discourse" && req.method === "POST") {
+        try {
+          const body = await readBody(req, maxBodyBytes);
+          const header = (name: string) => {
+            const value = req.headers[name];
+            return Array.isArray(value) ? value[0] : value;
+          };
+
+          const result = await client.handleDiscourseWebhook({
+            event: header("x-discourse-event") ?? "",
+            eventId: header("x-discourse-event-id"),
+            signature: header("x-discourse-event-signature") ?? "",
+            body: body.toString(),
+            meta: requestMeta(req, requestId),
+          });
+
+          sendJson(res, 200, result);
+        } catch (error: any) {
+          requestLog.warn("Webhook failed", { error });
+          sendError(res, errorStatus(error), error);
         }
-      </div>
-    </body>
-    </html>
-  `);
         return;
       }
 
-      // Route to plugin endpoints
+      if (url.pathname === "/openapi.json" && req.method === "GET") {
+        sendJson(res, 200, openApi);
+        return;
+      }
+
+      if (url.pathname === "/docs" && req.method === "GET") {
+        res.setHeader("Content-Type", "text/html");
+        res.setHeader("Content-Security-Policy", DOCS_CONTENT_SECURITY_POLICY);
+        res.statusCode = 200;
+        res.end(renderDocsPage(DOCS_TITLE, "/openapi.json"));
+        return;
+      }
+
+      // Plugin procedures, routed from the contract
       if (url.pathname.startsWith("/api/")) {
+        const route = API_ROUTES_BY_PATH.get(url.pathname);
         try {
-          // Read request body
-          const chunks: Buffer[] = [];
-          for await (const chunk of req) {
-            chunks.push(chunk);
+          if (!route) {
+            throw new HttpError(404, "NOT_FOUND", "Endpoint not found");
           }
+          if (req.method !== route.method) {
+            res.setHeader("Allow", route.method);
+            throw new HttpError(
+              405,
+              "METHOD_NOT_ALLOWED",
+              `Use ${route.method} for this endpoint`
+            );
+          }
+
           const body =
-            chunks.length > 0
-              ? JSON.parse(Buffer.concat(chunks).toString())
-              : {};
-
-          console.log(
-            `\n[${new Date().toISOString()}] ${req.method} ${url.pathname}`
-          );
-
-          // Call client methods
-          let result;
-
-          if (url.pathname === "/api/auth/user-api-url") {
-            result = await client.getUserApiAuthUrl(body);
-          } else if (url.pathname === "/api/auth/complete") {
-            result = await client.completeLink(body);
-          } else if (url.pathname === "/api/posts/create") {
-            result = await client.createPost(body);
-          } else if (url.pathname === "/api/linkage/get") {
-            result = await client.getLinkage(body);
-          } else {
-            res.statusCode = 404;
-            res.setHeader("Content-Type", "application/json");
-            res.end(JSON.stringify({ error: "Endpoint not found" }));
+            route.method === "GET"
+              ? Object.fromEntries(url.searchParams)
+              : await readJsonBody(req, maxBodyBytes);
+
+          // Set here so clients can't forge what the audit log records or
+          // which IP their requests count against
+          const input = { ...body, meta: requestMeta(req, requestId) };
+
+          const procedure = client[
+            route.procedure as keyof typeof client
+          ] as unknown as (input: unknown) => Promise<any>;
+          let result = await procedure(input);
+
+          // The redirect flow's verifier goes to the browser as a cookie,
+          // never in a body scripts can read
+          if (result?.stateVerifier) {
+            const { stateVerifier, ...rest } = result;
+            res.setHeader(
+              "Set-Cookie",
+              stateCookie(result.nonce, stateVerifier, stateCookieOptions)
+            );
+            result = rest;
+          }
+
+          if (DOWNLOAD_PROCEDURES.has(route.procedure)) {
+            res.setHeader("Content-Type", result.contentType);
+            res.setHeader(
+              "Content-Disposition",
+              `attachment; filename="${result.filename}"`
+            );
+            res.statusCode = route.successStatus;
+            res.end(result.data);
             return;
           }
 
-          // Send response
-          res.setHeader("Content-Type", "application/json");
-          res.statusCode = 200;
-          res.end(JSON.stringify(result));
+          sendJson(res, route.successStatus, result);
         } catch (error: any) {
-          console.error("Error:", error);
-          res.setHeader("Content-Type", "application/json");
-          res.statusCode = error.status || 500;
-          res.end(
-            JSON.stringify({
-              error: error.message || "Internal server error",
-              code: error.code,
-            })
-          );
+          const status = errorStatus(error, route);
+          if (status >= 500) {
+            requestLog.error("Request failed", { error });
+          }
+          sendError(res, status, error);
         }
       } else {
         res.statusCode = 404;
@@ -186,42 +533,38 @@ async function start() {
     }
   );
 
+  // Slow-loris protection: cap how long a client may take to send its
+  // headers and its whole request, and how long idle connections stay open
+  server.headersTimeout = Number(process.env.HEADERS_TIMEOUT_MS ?? 10000);
+  server.requestTimeout = Number(process.env.REQUEST_TIMEOUT_MS ?? 30000);
+  server.keepAliveTimeout = Number(process.env.KEEP_ALIVE_TIMEOUT_MS ?? 5000);
+  server.maxHeadersCount = 100;
+
   const PORT = process.env.PORT || 3001;
 
   server.listen(PORT, () => {
-    console.log("✓ Plugin server started\n");
-    console.log(`🚀 Server running at http://localhost:${PORT}`);
-    console.log("\n📋 Setup Checklist:");
-    console.log("  1. ✅ System API key configured");
-    console.log("  2. ⚠️  Add callback URL to Discourse:");
-    console.log(
-      `     Admin → Settings → API → Allowed user API auth redirects`
-    );
-    console.log(`     Add: http://localhost:${PORT}/*`);
-    console.log("\n🔌 Available endpoints:");
-    console.log("  GET  /health                    - Health check");
-    console.log("  POST /api/auth/user-api-url     - Get User API auth URL");
-    console.log(
-      "  POST /api/auth/complete         - Complete User API + NEAR link"
-    );
-    console.log("  POST /api/posts/create          - Create Discourse post");
-    console.log(
-      "  POST /api/linkage/get           - Check if account is linked"
+    log.info("Server listening", {
+      url: `http://localhost:${PORT}`,
+      endpoints: ENDPOINTS.map(
+        ([method, path, description]) => `${method} ${path} - ${description}`
+      ),
+    });
+    log.info(
+      "Add the callback URL to Discourse under Admin → Settings → API → Allowed user API auth redirects",
+      { callbackUrl: `http://localhost:${PORT}/*` }
     );
-    console.log("\n💡 Using Discourse User API (simpler than OAuth2!)");
-    console.log("\nPress Ctrl+C to stop\n");
   });
 
   // Graceful shutdown
   process.on("SIGTERM", async () => {
-    console.log("\nShutting down...");
+    log.info("Shutting down");
     server.close();
     await runtime.shutdown();
     process.exit(0);
   });
 
   process.on("SIGINT", async () => {
-    console.log("\nShutting down...");
+    log.info("Shutting down");
     server.close();
     await runtime.shutdown();
     process.exit(0);
@@ -229,6 +572,6 @@ async function start() {
 }
 
 start().catch((error) => {
-  console.error("Failed to start server:", error);
+  log.error("Failed to start server", { error });
   process.exit(1);
 });
@@ -0,0 +1,696 @@
+import type { Database } from "bun:sqlite";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// "suspended" and "revoked" linkages are kept but may not act on Discourse;
+// "username_changed" ones still work but point at a renamed user
+export type LinkageStatus =
+  | "active"
+  | "suspended"
+  | "revoked"
+  | "username_changed";
+
+export interface Linkage {
+  nearAccount: string;
+  discourseUsername: string;
+  discourseUserId: number;
+  userApiKey: string; // Store the User API key for this user
+  clientId: string;
+  scopes: string[]; // User API scopes granted with `userApiKey`
+  status: LinkageStatus;
+  // The canonical NEAR account among those linked to one Discourse user
+  isPrimary: boolean;
+  verifiedAt: string;
+}
+
+export interface NonceData {
+  nonce: string;
+  clientId: string;
+  privateKey: string;
+  scopes: string[];
+  timestamp: number;
+  // Browser redirect flow: where to send the user once linking finishes,
+  // and a link signature submitted ahead of the Discourse callback
+  authRedirect?: string;
+  authToken?: string;
+  // SHA-256 of the verifier the initiating browser holds in a cookie
+  stateHash?: string;
+}
+
+// The signed NEAR auth token that authorized an action, kept so the
+// signature can be re-verified later
+export interface AuditEvidence {
+  action: string; // AuthAction the token was signed for
+  payload: Record<string, unknown>; // Canonical payload behind the message
+  authToken: string;
+  publicKey: string;
+}
+
+// Filled in by the HTTP server, never by the client
+export interface RequestMeta {
+  ip?: string;
+  userAgent?: string;
+  requestId?: string;
+}
+
+export interface AuditEntry {
+  id: number;
+  timestamp: number;
+  actor: string; // Who acted, e.g. "admin:alice" or "near:alice.near"
+  action: string;
+  target: string; // Usually the affected NEAR account
+  details: Record<string, unknown>;
+  evidence?: AuditEvidence;
+  meta?: RequestMeta;
+}
+
+export interface AuditQuery {
+  target?: string;
+  beforeId?: number;
+  limit: number;
+}
+
+/**
+ * Persistence layer shared by LinkageStore, NonceManager and AuditLog.
+ * Implementations only move records in and out; TTLs, logging and
+ * validation stay in the plugin.
+ */
+export interface StorageBackend {
+  readonly kind: "memory" | "sqlite";
+
+  getLinkage(nearAccount: string): Promise<Linkage | null>;
+  setLinkage(linkage: Linkage): Promise<void>;
+  /** Returns false when there was nothing to delete. */
+  deleteLinkage(nearAccount: string): Promise<boolean>;
+  listLinkages(): Promise<Linkage[]>;
+  /** Linkages for each of `nearAccounts` that exists, in no set order. */
+  getLinkages(nearAccounts: string[]): Promise<Linkage[]>;
+  listLinkagesByDiscourseUserId(discourseUserId: number): Promise<Linkage[]>;
+  /** Matches usernames case-insensitively, as Discourse does. */
+  listLinkagesByDiscourseUsername(username: string): Promise<Linkage[]>;
+
+  getNonce(nonce: string): Promise<NonceData | null>;
+  setNonce(data: NonceData): Promise<void>;
+  deleteNonce(nonce: string): Promise<void>;
+  countNonces(): Promise<number>;
+  /** Removes nonces created before `cutoff` (ms epoch), returns how many. */
+  deleteNoncesBefore(cutoff: number): Promise<number>;
+
+  /**
+   * Records a used auth token key. Returns false if the key was already
+   * recorded, which makes the check-and-set atomic for replay protection.
+   */
+  claimReplayKey(key: string, expiresAt: number): Promise<boolean>;
+  hasReplayKey(key: string): Promise<boolean>;
+  deleteReplayKeysBefore(cutoff: number): Promise<number>;
+
+  /** Appends an entry; entries are never updated or deleted. */
+  appendAuditEntry(entry: Omit<AuditEntry, "id">): Promise<AuditEntry>;
+  /** Newest first; `beforeId` pages further back. */
+  listAuditEntries(query: AuditQuery): Promise<AuditEntry[]>;
+
+  close(): Promise<void>;
+}
+
+// ============================================================================
+// IN-MEMORY BACKEND
+// ============================================================================
+
+export class MemoryStorage implements StorageBackend {
+  readonly kind = "memory" as const;
+
+  private linkages = new Map<string, Linkage>();
+  // Secondary indexes: Discourse user id / lowercased username → NEAR accounts
+  private byUserId = new Map<number, Set<string>>();
+  private byUsername = new Map<string, Set<string>>();
+  private nonces = new Map<string, NonceData>();
+  private replayKeys = new Map<string, number>();
+  private auditEntries: AuditEntry[] = [];
+
+  async getLinkage(nearAccount: string): Promise<Linkage | null> {
+    return this.linkages.get(nearAccount) || null;
+  }
+
+  async setLinkage(linkage: Linkage): Promise<void> {
+    this.unindex(linkage.nearAccount);
+    this.linkages.set(linkage.nearAccount, linkage);
+    addToIndex(this.byUserId, linkage.discourseUserId, linkage.nearAccount);
+    addToIndex(
+      this.byUsername,
+      linkage.discourseUsername.toLowerCase(),
+      linkage.nearAccount
+    );
+  }
+
+  async deleteLinkage(nearAccount: string): Promise<boolean> {
+    this.unindex(nearAccount);
+    return this.linkages.delete(nearAccount);
+  }
+
+  async getLinkages(nearAccounts: string[]): Promise<Linkage[]> {
+    return this.lookup(nearAccounts);
+  }
+
+  async listLinkages(): Promise<Linkage[]> {
+    return Array.from(this.linkages.values());
+  }
+
+  async listLinkagesByDiscourseUserId(
+    discourseUserId: number
+  ): Promise<Linkage[]> {
+    return this.lookup(this.byUserId.get(discourseUserId) ?? []);
+  }
+
+  async listLinkagesByDiscourseUsername(username: string): Promise<Linkage[]> {
+    return this.lookup(this.byUsername.get(username.toLowerCase()) ?? []);
+  }
+
+  async getNonce(nonce: string): Promise<NonceData | null> {
+    return this.nonces.get(nonce) || null;
+  }
+
+  async setNonce(data: NonceData): Promise<void> {
+    this.nonces.set(data.nonce, data);
+  }
+
+  async deleteNonce(nonce: string): Promise<void> {
+    this.nonces.delete(nonce);
+  }
+
+  async countNonces(): Promise<number> {
+    return this.nonces.size;
+  }
+
+  async deleteNoncesBefore(cutoff: number): Promise<number> {
+    let deleted = 0;
+    for (const [nonce, data] of this.nonces.entries()) {
+      if (data.timestamp < cutoff) {
+        this.nonces.delete(nonce);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async claimReplayKey(key: string, expiresAt: number): Promise<boolean> {
+    if (this.replayKeys.has(key)) {
+      return false;
+    }
+    this.replayKeys.set(key, expiresAt);
+    return true;
+  }
+
+  async hasReplayKey(key: string): Promise<boolean> {
+    return this.replayKeys.has(key);
+  }
+
+  async deleteReplayKeysBefore(cutoff: number): Promise<number> {
+    let deleted = 0;
+    for (const [key, expiresAt] of this.replayKeys.entries()) {
+      if (expiresAt < cutoff) {
+        this.replayKeys.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async appendAuditEntry(entry: Omit<AuditEntry, "id">): Promise<AuditEntry> {
+    const stored = { ...entry, id: this.auditEntries.length + 1 };
+    this.auditEntries.push(stored);
+    return stored;
+  }
+
+  async listAuditEntries(query: AuditQuery): Promise<AuditEntry[]> {
+    return this.auditEntries
+      .filter(
+        (entry) =>
+          (query.target === undefined || entry.target === query.target) &&
+          (query.beforeId === undefined || entry.id < query.beforeId)
+      )
+      .reverse()
+      .slice(0, query.limit);
+  }
+
+  async close(): Promise<void> {}
+
+  private lookup(nearAccounts: Iterable<string>): Linkage[] {
+    const found: Linkage[] = [];
+    for (const nearAccount of nearAccounts) {
+      const linkage = this.linkages.get(nearAccount);
+      if (linkage) {
+        found.push(linkage);
+      }
+    }
+    return found;
+  }
+
+  private unindex(nearAccount: string) {
+    const existing = this.linkages.get(nearAccount);
+    if (existing) {
+      removeFromIndex(this.byUserId, existing.discourseUserId, nearAccount);
+      removeFromIndex(
+        this.byUsername,
+        existing.discourseUsername.toLowerCase(),
+        nearAccount
+      );
+    }
+  }
+}
+
+function addToIndex<K>(index: Map<K, Set<string>>, key: K, value: string) {
+  let values = index.get(key);
+  if (!values) {
+    values = new Set();
+    index.set(key, values);
+  }
+  values.add(value);
+}
+
+function removeFromIndex<K>(index: Map<K, Set<string>>, key: K, value: string) {
+  const values = index.get(key);
+  values?.delete(value);
+  if (values?.size === 0) {
+    index.delete(key);
+  }
+}
+
+// ============================================================================
+// SQLITE BACKEND
+// ============================================================================
+
+interface LinkageRow {
+  near_account: string;
+  discourse_username: string;
+  discourse_user_id: number;
+  user_api_key: string;
+  client_id: string | null;
+  scopes: string | null;
+  status: string;
+  is_primary: number;
+  verified_at: string;
+}
+
+interface NonceRow {
+  nonce: string;
+  client_id: string;
+  private_key: string;
+  scopes: string | null;
+  created_at: number;
+  auth_redirect: string | null;
+  auth_token: string | null;
+  state_hash: string | null;
+}
+
+interface AuditRow {
+  id: number;
+  created_at: number;
+  actor: string;
+  action: string;
+  target: string;
+  details: string;
+  evidence: string | null;
+  meta: string | null;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS linkages (
+    near_account TEXT PRIMARY KEY,
+    discourse_username TEXT NOT NULL,
+    discourse_user_id INTEGER NOT NULL,
+    user_api_key TEXT NOT NULL,
+    client_id TEXT,
+    scopes TEXT,
+    status TEXT NOT NULL DEFAULT 'active',
+    is_primary INTEGER NOT NULL DEFAULT 0,
+    verified_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS linkages_discourse_user_id
+    ON linkages (discourse_user_id);
+
+  CREATE INDEX IF NOT EXISTS linkages_discourse_username
+    ON linkages (discourse_username COLLATE NOCASE);
+
+  CREATE TABLE IF NOT EXISTS nonces (
+    nonce TEXT PRIMARY KEY,
+    client_id TEXT NOT NULL,
+    private_key TEXT NOT NULL,
+    scopes TEXT,
+    created_at INTEGER NOT NULL,
+    auth_redirect TEXT,
+    auth_token TEXT,
+    state_hash TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS nonces_created_at ON nonces (created_at);
+
+  CREATE TABLE IF NOT EXISTS replay_keys (
+    key TEXT PRIMARY KEY,
+    expires_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS replay_keys_expires_at ON replay_keys (expires_at);
+
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    created_at INTEGER NOT NULL,
+    actor TEXT NOT NULL,
+    action TEXT NOT NULL,
+    target TEXT NOT NULL,
+    details TEXT NOT NULL,
+    evidence TEXT,
+    meta TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS audit_log_target ON audit_log (target, id);
+`;
+
+// Columns added after a table was first released, for existing databases.
+// `backfill` runs once, right after the column is added.
+const MIGRATIONS: Array<{
+  table: string;
+  column: string;
+  definition: string;
+  backfill?: string;
+}> = [
+  { table: "nonces", column: "auth_redirect", definition: "TEXT" },
+  { table: "nonces", column: "auth_token", definition: "TEXT" },
+  { table: "nonces", column: "state_hash", definition: "TEXT" },
+  { table: "nonces", column: "scopes", definition: "TEXT" },
+  { table: "linkages", column: "client_id", definition: "TEXT" },
+  { table: "linkages", column: "scopes", definition: "TEXT" },
+  {
+    table: "linkages",
+    column: "status",
+    definition: "TEXT NOT NULL DEFAULT 'active'",
+  },
+  { table: "audit_log", column: "evidence", definition: "TEXT" },
+  { table: "audit_log", column: "meta", definition: "TEXT" },
+  {
+    table: "linkages",
+    column: "is_primary",
+    definition: "INTEGER NOT NULL DEFAULT 0",
+    // The earliest linked account of each Discourse user becomes primary
+    backfill: `UPDATE linkages SET is_primary = 1 WHERE near_account IN (
+      SELECT near_account FROM (
+        SELECT near_account, MIN(verified_at) FROM linkages
+        GROUP BY discourse_user_id
+      )
+    )`,
+  },
+];
+
+function migrate(db: Database) {
+  for (const { table, column, definition, backfill } of MIGRATIONS) {
+    const columns = db
+      .query<{ name: string }, []>(`PRAGMA table_info(${table})`)
+      .all();
+    if (!columns.some((existing) => existing.name === column)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      if (backfill) {
+        db.exec(backfill);
+      }
+    }
+  }
+}
+
+function rowToLinkage(row: LinkageRow): Linkage {
+  return {
+    nearAccount: row.near_account,
+    discourseUsername: row.discourse_username,
+    discourseUserId: row.discourse_user_id,
+    userApiKey: row.user_api_key,
+    clientId: row.client_id ?? "",
+    // Linkages from before scopes were recorded were always read + write
+    scopes: row.scopes ? JSON.parse(row.scopes) : ["read", "write"],
+    status: row.status as LinkageStatus,
+    isPrimary: row.is_primary === 1,
+    verifiedAt: row.verified_at,
+  };
+}
+
+function rowToAuditEntry(row: AuditRow): AuditEntry {
+  return {
+    id: row.id,
+    timestamp: row.created_at,
+    actor: row.actor,
+    action: row.action,
+    target: row.target,
+    details: JSON.parse(row.details),
+    evidence: row.evidence ? JSON.parse(row.evidence) : undefined,
+    meta: row.meta ? JSON.parse(row.meta) : undefined,
+  };
+}
+
+function rowToNonce(row: NonceRow): NonceData {
+  return {
+    nonce: row.nonce,
+    clientId: row.client_id,
+    privateKey: row.private_key,
+    scopes: row.scopes ? JSON.parse(row.scopes) : ["read", "write"],
+    timestamp: row.created_at,
+    authRedirect: row.auth_redirect ?? undefined,
+    authToken: row.auth_token ?? undefined,
+    stateHash: row.state_hash ?? undefined,
+  };
+}
+
+/**
+ * File-backed storage using Bun's built-in SQLite driver. WAL mode lets
+ * several server processes on the same host share one database file.
+ */
+export class SqliteStorage implements StorageBackend {
+  readonly kind = "sqlite" as const;
+
+  private constructor(private db: Database) {}
+
+  static async open(path: string): Promise<SqliteStorage> {
+    // Loaded lazily so the in-memory backend keeps working outside Bun
+    const { Database } = await import(/* webpackIgnore: true */ "bun:sqlite");
+
+    const db = new Database(path, { create: true });
+    db.exec("PRAGMA journal_mode = WAL;");
+    db.exec("PRAGMA busy_timeout = 5000;");
+    db.exec(SCHEMA);
+    migrate(db);
+
+    return new SqliteStorage(db);
+  }
+
+  async getLinkage(nearAccount: string): Promise<Linkage | null> {
+    const row = this.db
+      .query<LinkageRow, [string]>(
+        "SELECT * FROM linkages WHERE near_account = ?"
+      )
+      .get(nearAccount);
+    return row ? rowToLinkage(row) : null;
+  }
+
+  async setLinkage(linkage: Linkage): Promise<void> {
+    this.db
+      .query(
+        `INSERT INTO linkages
+           (near_account, discourse_username, discourse_user_id, user_api_key,
+            client_id, scopes, status, is_primary, verified_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (near_account) DO UPDATE SET
+           discourse_username = excluded.discourse_username,
+           discourse_user_id = excluded.discourse_user_id,
+           user_api_key = excluded.user_api_key,
+           client_id = excluded.client_id,
+           scopes = excluded.scopes,
+           status = excluded.status,
+           is_primary = excluded.is_primary,
+           verified_at = excluded.verified_at`
+      )
+      .run(
+        linkage.nearAccount,
+        linkage.discourseUsername,
+        linkage.discourseUserId,
+        linkage.userApiKey,
+        linkage.clientId,
+        JSON.stringify(linkage.scopes),
+        linkage.status,
+        linkage.isPrimary ? 1 : 0,
+        linkage.verifiedAt
+      );
+  }
+
+  async deleteLinkage(nearAccount: string): Promise<boolean> {
+    const result = this.db
+      .query("DELETE FROM linkages WHERE near_account = ?")
+      .run(nearAccount);
+    return result.changes > 0;
+  }
+
+  async listLinkages(): Promise<Linkage[]> {
+    return this.db
+      .query<LinkageRow, []>("SELECT * FROM linkages ORDER BY verified_at")
+      .all()
+      .map(rowToLinkage);
+  }
+
+  async getLinkages(nearAccounts: string[]): Promise<Linkage[]> {
+    if (nearAccounts.length === 0) {
+      return [];
+    }
+    const placeholders = nearAccounts.map(() => "?").join(", ");
+    return this.db
+      .query<LinkageRow, string[]>(
+        `SELECT * FROM linkages WHERE near_account IN (${placeholders})`
+      )
+      .all(...nearAccounts)
+      .map(rowToLinkage);
+  }
+
+  async listLinkagesByDiscourseUserId(
+    discourseUserId: number
+  ): Promise<Linkage[]> {
+    return this.db
+      .query<LinkageRow, [number]>(
+        "SELECT * FROM linkages WHERE discourse_user_id = ?"
+      )
+      .all(discourseUserId)
+      .map(rowToLinkage);
+  }
+
+  async listLinkagesByDiscourseUsername(username: string): Promise<Linkage[]> {
+    return this.db
+      .query<LinkageRow, [string]>(
+        "SELECT * FROM linkages WHERE discourse_username = ? COLLATE NOCASE"
+      )
+      .all(username)
+      .map(rowToLinkage);
+  }
+
+  async getNonce(nonce: string): Promise<NonceData | null> {
+    const row = this.db
+      .query<NonceRow, [string]>("SELECT * FROM nonces WHERE nonce = ?")
+      .get(nonce);
+    return row ? rowToNonce(row) : null;
+  }
+
+  async setNonce(data: NonceData): Promise<void> {
+    this.db
+      .query(
+        `INSERT OR REPLACE INTO nonces
+           (nonce, client_id, private_key, scopes, created_at,
+            auth_redirect, auth_token, state_hash)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        data.nonce,
+        data.clientId,
+        data.privateKey,
+        JSON.stringify(data.scopes),
+        data.timestamp,
+        data.authRedirect ?? null,
+        data.authToken ?? null,
+        data.stateHash ?? null
+      );
+  }
+
+  async deleteNonce(nonce: string): Promise<void> {
+    this.db.query("DELETE FROM nonces WHERE nonce = ?").run(nonce);
+  }
+
+  async countNonces(): Promise<number> {
+    const row = this.db
+      .query<{ count: number }, []>("SELECT COUNT(*) AS count FROM nonces")
+      .get();
+    return row?.count ?? 0;
+  }
+
+  async deleteNoncesBefore(cutoff: number): Promise<number> {
+    const result = this.db
+      .query("DELETE FROM nonces WHERE created_at < ?")
+      .run(cutoff);
+    return result.changes;
+  }
+
+  async claimReplayKey(key: string, expiresAt: number): Promise<boolean> {
+    const result = this.db
+      .query(
+        "INSERT OR IGNORE INTO replay_keys (key, expires_at) VALUES (?, ?)"
+      )
+      .run(key, expiresAt);
+    return result.changes > 0;
+  }
+
+  async hasReplayKey(key: string): Promise<boolean> {
+    return !!this.db
+      .query<{ key: string }, [string]>(
+        "SELECT key FROM replay_keys WHERE key = ?"
+      )
+      .get(key);
+  }
+
+  async deleteReplayKeysBefore(cutoff: number): Promise<number> {
+    const result = this.db
+      .query("DELETE FROM replay_keys WHERE expires_at < ?")
+      .run(cutoff);
+    return result.changes;
+  }
+
+  async appendAuditEntry(entry: Omit<AuditEntry, "id">): Promise<AuditEntry> {
+    const result = this.db
+      .query(
+        `INSERT INTO audit_log
+           (created_at, actor, action, target, details, evidence, meta)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        entry.timestamp,
+        entry.actor,
+        entry.action,
+        entry.target,
+        JSON.stringify(entry.details),
+        entry.evidence ? JSON.stringify(entry.evidence) : null,
+        entry.meta ? JSON.stringify(entry.meta) : null
+      );
+    return { ...entry, id: Number(result.lastInsertRowid) };
+  }
+
+  async listAuditEntries(query: AuditQuery): Promise<AuditEntry[]> {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+    if (query.target !== undefined) {
+      conditions.push("target = ?");
+      params.push(query.target);
+    }
+    if (query.beforeId !== undefined) {
+      conditions.push("id < ?");
+      params.push(query.beforeId);
+    }
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    return this.db
+      .query<AuditRow, Array<string | number>>(
+        `SELECT * FROM audit_log ${where} ORDER BY id DESC LIMIT ?`
+      )
+      .all(...params, query.limit)
+      .map(rowToAuditEntry);
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+export async function createStorage(options: {
+  backend: "memory" | "sqlite";
+  sqlitePath: string;
+}): Promise<StorageBackend> {
+  if (options.backend === "sqlite") {
+    return SqliteStorage.open(options.sqlitePath);
+  }
+  return new MemoryStorage();
+}
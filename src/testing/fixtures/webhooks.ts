@@ -0,0 +1,47 @@
+import { readFileSync } from "fs";
+
+// The secret the fixtures below were signed with
+export const WEBHOOK_SECRET = "fixture-webhook-secret-4f1c9a2e7b";
+
+// A delivery as the server receives it: the headers and the exact body bytes
+export interface WebhookDelivery {
+  event: string; // X-Discourse-Event
+  eventId: string; // X-Discourse-Event-Id
+  signature: string; // X-Discourse-Event-Signature
+  body: string;
+}
+
+// Bodies live next to this file as Discourse sent them; reformatting one
+// invalidates its signature
+function recorded(
+  event: string,
+  eventId: string,
+  signature: string
+): WebhookDelivery {
+  const body = readFileSync(
+    new URL(`./webhooks/${event}.json`, import.meta.url),
+    "utf8"
+  );
+  return { event, eventId, signature, body };
+}
+
+// User 1042, "alice", renamed to "alice_renamed"
+export const userUpdated = recorded(
+  "user_updated",
+  "311",
+  "sha256=b34109d26c17664f3088f3cd421632b18717cef608a66c0f422554e983bbc8d8"
+);
+
+// User 1042 suspended "forever", i.e. for a thousand years
+export const userSuspended = recorded(
+  "user_suspended",
+  "312",
+  "sha256=0fc8453e1ded2bd535d06b363e1fc490f2c3a01b943894bd72bf70ba1add5c7b"
+);
+
+// User 1042 deleted; the body is the user as it was just before
+export const userDestroyed = recorded(
+  "user_destroyed",
+  "313",
+  "sha256=0cab74b9aecfae084e882c4a37dccccff894cb992a0e9796559fa02c24838157"
+);
@@ -0,0 +1,429 @@
+import { constants, publicEncrypt, randomBytes } from "crypto";
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "http";
+import type { AddressInfo } from "net";
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+export interface MockUser {
+  id: number;
+  username: string;
+  name: string;
+}
+
+interface MockUserApiKey {
+  userId: number;
+  clientId: string;
+  scopes: string[];
+  revoked: boolean;
+}
+
+interface MockPost {
+  id: number;
+  topic_id: number;
+  topic_slug: string;
+  post_number: number;
+  user_id: number;
+  username: string;
+  raw: string;
+  cooked: string;
+  created_at: string;
+  reply_to_post_number: number | null;
+}
+
+/**
+ * A canned response for the next request to `path` (any path when omitted),
+ * sent after `delayMs`. Without a `status` the request is handled normally
+ * once the delay has passed, which is enough to trip a client timeout.
+ */
+export interface MockFault {
+  path?: string;
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  delayMs?: number;
+}
+
+// Discourse's own limits for a new site
+const MIN_TITLE_LENGTH = 15;
+const MIN_POST_LENGTH = 20;
+
+// Same wording as Discourse, which is what DiscourseClient classifies by
+const INVALID_KEY_ERROR = {
+  errors: [
+    "You are not permitted to view the requested resource. The API username or key is invalid.",
+  ],
+  error_type: "invalid_access",
+};
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+/**
+ * In-memory stand-in for the parts of Discourse the plugin talks to:
+ * `/user-api-key/new` (approved at once on behalf of the signed-in user),
+ * `/user-api-key/revoke`, `/session/current.json`, `/posts.json` and
+ * `/posts/:id.json`, all with Discourse's error bodies.
+ */
+export class MockDiscourse {
+  readonly users = new Map<number, MockUser>();
+  readonly userApiKeys = new Map<string, MockUserApiKey>();
+  readonly posts = new Map<number, MockPost>();
+  // Every request received, in order
+  readonly requests: Array<{ method: string; path: string }> = [];
+
+  private faults: MockFault[] = [];
+  private signedInUserId?: number;
+  private nextPostId = 1;
+  private nextTopicId = 1;
+  private server?: Server;
+
+  constructor(private systemApiKey = "mock-system-key") {}
+
+  /** Starts listening (on a free port by default) and returns the base URL. */
+  async start(port = 0): Promise<string> {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        res.statusCode = 500;
+        res.end(JSON.stringify({ errors: [String(error)] }));
+      });
+    });
+    await new Promise<void>((resolve) =>
+      this.server!.listen(port, "127.0.0.1", resolve)
+    );
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve, reject) =>
+      this.server?.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  get baseUrl(): string {
+    const { port } = this.server!.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  addUser(username: string, name = username): MockUser {
+    const user = { id: this.users.size + 1, username, name };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  /** The user who approves `/user-api-key/new` requests. */
+  signIn(user: MockUser): void {
+    this.signedInUserId = user.id;
+  }
+
+  // What an admin renaming the user does; existing keys keep working
+  renameUser(user: MockUser, username: string): void {
+    user.username = username;
+  }
+
+  // What the user revoking the app from their profile does
+  revokeUserApiKeys(user: MockUser): void {
+    for (const key of this.userApiKeys.values()) {
+      if (key.userId === user.id) {
+        key.revoked = true;
+      }
+    }
+  }
+
+  inject(fault: MockFault): void {
+    this.faults.push(fault);
+  }
+
+  // ==========================================================================
+  // ROUTING
+  // ==========================================================================
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url!, "http://mock");
+    const method = req.method ?? "GET";
+    this.requests.push({ method, path: url.pathname });
+
+    const faultIndex = this.faults.findIndex(
+      (fault) => !fault.path || fault.path === url.pathname
+    );
+    if (faultIndex >= 0) {
+      const [fault] = this.faults.splice(faultIndex, 1);
+      if (fault!.delayMs) {
+        await new Promise((resolve) => setTimeout(resolve, fault!.delayMs));
+      }
+      if (fault!.status) {
+        for (const [name, value] of Object.entries(fault!.headers ?? {})) {
+          res.setHeader(name, value);
+        }
+        return this.json(res, fault!.status, fault!.body ?? {});
+      }
+    }
+
+    const body = await readJson(req);
+    const postMatch = url.pathname.match(/^\/posts\/(\d+)\.json$/);
+
+    if (method === "GET" && url.pathname === "/user-api-key/new") {
+      return this.newUserApiKey(url, res);
+    }
+    if (method === "POST" && url.pathname === "/user-api-key/revoke") {
+      return this.revokeUserApiKey(req, res);
+    }
+    if (method === "GET" && url.pathname === "/session/current.json") {
+      return this.currentUser(req, res);
+    }
+    if (method === "POST" && url.pathname === "/posts.json") {
+      return this.createPost(req, res, body);
+    }
+    if (postMatch) {
+      return this.post(req, res, method, Number(postMatch[1]), body);
+    }
+    return this.json(res, 404, {
+      errors: ["The requested URL or resource could not be found."],
+      error_type: "not_found",
+    });
+  }
+
+  // ==========================================================================
+  // USER API KEYS
+  // ==========================================================================
+
+  // Approves at once and returns the payload the way Discourse does: base64
+  // of the RSA PKCS#1 v1.5 encrypted JSON, wrapped at 60 characters
+  private newUserApiKey(url: URL, res: ServerResponse) {
+    const params = url.searchParams;
+    const publicKey = params.get("public_key");
+    const nonce = params.get("nonce");
+    if (!publicKey || !nonce || !params.get("client_id")) {
+      return this.json(res, 400, {
+        errors: ["param is missing or the value is empty"],
+        error_type: "invalid_parameters",
+      });
+    }
+    if (this.signedInUserId === undefined) {
+      return this.json(res, 403, {
+        errors: ["You need to be logged in to do that."],
+        error_type: "not_logged_in",
+      });
+    }
+
+    const key = randomBytes(16).toString("hex");
+    this.userApiKeys.set(key, {
+      userId: this.signedInUserId,
+      clientId: params.get("client_id")!,
+      scopes: (params.get("scopes") ?? "read").split(","),
+      revoked: false,
+    });
+
+    const encrypted = publicEncrypt(
+      { key: publicKey, padding: constants.RSA_PKCS1_PADDING },
+      Buffer.from(JSON.stringify({ key, nonce, push: false, api: 4 }))
+    );
+    const payload = encrypted.toString("base64").replace(/(.{60})/g, "$1\n");
+
+    const authRedirect = params.get("auth_redirect");
+    if (authRedirect) {
+      const redirect = new URL(authRedirect);
+      redirect.searchParams.set("payload", payload);
+      res.statusCode = 302;
+      res.setHeader("Location", redirect.toString());
+      res.end();
+      return;
+    }
+    return this.json(res, 200, { payload });
+  }
+
+  private revokeUserApiKey(req: IncomingMessage, res: ServerResponse) {
+    const key = this.userApiKeys.get(header(req, "user-api-key") ?? "");
+    if (!key || key.revoked) {
+      return this.json(res, 403, INVALID_KEY_ERROR);
+    }
+    key.revoked = true;
+    return this.json(res, 200, { success: "OK" });
+  }
+
+  private currentUser(req: IncomingMessage, res: ServerResponse) {
+    const user = this.authenticate(req);
+    if (!user) {
+      return this.json(res, 403, INVALID_KEY_ERROR);
+    }
+    return this.json(res, 200, { current_user: user });
+  }
+
+  // Resolves the User API key, or the system key plus Api-Username
+  private authenticate(
+    req: IncomingMessage,
+    scope?: string
+  ): MockUser | undefined {
+    const userApiKey = header(req, "user-api-key");
+    if (userApiKey) {
+      const key = this.userApiKeys.get(userApiKey);
+      if (!key || key.revoked || (scope && !key.scopes.includes(scope))) {
+        return undefined;
+      }
+      return this.users.get(key.userId);
+    }
+
+    if (header(req, "api-key") === this.systemApiKey) {
+      const username = header(req, "api-username");
+      return [...this.users.values()].find(
+        (user) => user.username === username
+      );
+    }
+    return undefined;
+  }
+
+  // ==========================================================================
+  // POSTS
+  // ==========================================================================
+
+  private createPost(req: IncomingMessage, res: ServerResponse, body: any) {
+    const user = this.authenticate(req, "write");
+    if (!user) {
+      return this.json(res, 403, INVALID_KEY_ERROR);
+    }
+
+    const raw = String(body.raw ?? "");
+    const replyTo = body.topic_id !== undefined;
+    const errors = [
+      ...(!replyTo && String(body.title ?? "").length < MIN_TITLE_LENGTH
+        ? [`Title is too short (minimum is ${MIN_TITLE_LENGTH} characters)`]
+        : []),
+      ...(raw.length < MIN_POST_LENGTH
+        ? [`Body is too short (minimum is ${MIN_POST_LENGTH} characters)`]
+        : []),
+    ];
+    if (errors.length > 0) {
+      return this.json(res, 422, { errors, error_type: "invalid_parameters" });
+    }
+
+    let topicId: number;
+    let topicSlug: string;
+    if (replyTo) {
+      const first = [...this.posts.values()].find(
+        (post) => post.topic_id === body.topic_id
+      );
+      if (!first) {
+        return this.json(res, 404, {
+          errors: ["The requested URL or resource could not be found."],
+          error_type: "not_found",
+        });
+      }
+      topicId = first.topic_id;
+      topicSlug = first.topic_slug;
+    } else {
+      topicId = this.nextTopicId++;
+      topicSlug = String(body.title)
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-|-$/g, "");
+    }
+
+    const post: MockPost = {
+      id: this.nextPostId++,
+      topic_id: topicId,
+      topic_slug: topicSlug,
+      post_number:
+        [...this.posts.values()].filter((p) => p.topic_id === topicId).length +
+        1,
+      user_id: user.id,
+      username: user.username,
+      raw,
+      cooked: `<p>${raw}</p>`,
+      created_at: new Date().toISOString(),
+      reply_to_post_number: body.reply_to_post_number ?? null,
+    };
+    this.posts.set(post.id, post);
+    return this.json(res, 200, post);
+  }
+
+  private post(
+    req: IncomingMessage,
+    res: ServerResponse,
+    method: string,
+    postId: number,
+    body: any
+  ) {
+    const user = this.authenticate(req, method === "GET" ? "read" : "write");
+    if (!user) {
+      return this.json(res, 403, INVALID_KEY_ERROR);
+    }
+    const post = this.posts.get(postId);
+    if (!post) {
+      return this.json(res, 404, {
+        errors: ["The requested URL or resource could not be found."],
+        error_type: "not_found",
+      });
+    }
+
+    if (method === "GET") {
+      return this.json(res, 200, post);
+    }
+    if (post.user_id !== user.id) {
+      return this.json(res, 403, {
+        errors: ["You are not permitted to view the requested resource."],
+        error_type: "invalid_access",
+      });
+    }
+    if (method === "PUT") {
+      post.raw = String(body.post?.raw ?? post.raw);
+      post.cooked = `<p>${post.raw}</p>`;
+      return this.json(res, 200, { post });
+    }
+    if (method === "DELETE") {
+      this.posts.delete(postId);
+      return this.json(res, 200, {});
+    }
+    return this.json(res, 404, {
+      errors: ["Not found"],
+      error_type: "not_found",
+    });
+  }
+
+  private json(res: ServerResponse, status: number, body: unknown) {
+    res.statusCode = status;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify(body));
+  }
+}
+
+function header(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+async function readJson(req: IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk);
+  }
+  if (chunks.length === 0) {
+    return {};
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString());
+  } catch {
+    return {};
+  }
+}
+
+// ============================================================================
+// CLI
+// ============================================================================
+
+// bun run mock-discourse: serves on MOCK_DISCOURSE_PORT (4200) with one
+// signed-in user, for pointing DISCOURSE_BASE_URL at during development
+if (import.meta.main) {
+  const mock = new MockDiscourse(process.env.DISCOURSE_API_KEY);
+  mock.signIn(mock.addUser(process.env.MOCK_DISCOURSE_USER || "alice"));
+  const baseUrl = await mock.start(
+    Number(process.env.MOCK_DISCOURSE_PORT ?? 4200)
+  );
+  console.log(`Mock Discourse running at ${baseUrl}`);
+}
@@ -0,0 +1,101 @@
+import { KeyPair, type KeyPairString } from "@near-js/crypto";
+import { sign } from "near-sign-verify";
+import { actionMessage, type AuthAction } from "../auth";
+
+// ============================================================================
+// TEST SIGNERS
+// ============================================================================
+
+export interface TestSigner {
+  accountId: string;
+  keyPair: KeyPair;
+}
+
+/**
+ * A NEAR account and key for signing test tokens; a fresh random key unless
+ * `secretKey` (`ed25519:...`) is given.
+ *
+ * Tokens from a random key pass the offline checks (`verifyTokenSignature`,
+ * `verify-audit`). `completeLink` and the write routes also need the key to
+ * belong to the account: register it with the plugin's `accessKeyResolver`
+ * option, as the end-to-end suite does, or use a real account's full-access
+ * key.
+ */
+export function createTestSigner(
+  accountId = "alice.testnet",
+  secretKey?: string
+): TestSigner {
+  return {
+    accountId,
+    keyPair: secretKey
+      ? KeyPair.fromString(secretKey as KeyPairString)
+      : KeyPair.fromRandom("ed25519"),
+  };
+}
+
+/**
+ * NEP-413 nonce in near-sign-verify's format: the millisecond timestamp as
+ * 16 zero-padded ASCII digits, then 16 random bytes. A past `signedAt`
+ * yields tokens that are rejected as expired.
+ */
+export function nonceAt(signedAt: Date): Uint8Array {
+  const nonce = new Uint8Array(32);
+  nonce.set(
+    new TextEncoder().encode(String(signedAt.getTime()).padStart(16, "0"))
+  );
+  nonce.set(crypto.getRandomValues(new Uint8Array(16)), 16);
+  return nonce;
+}
+
+/**
+ * Signs `action` and `payload` the way a client must (see
+ * `actionMessage`), producing the `authToken` a route expects.
+ */
+export async function signAction(
+  signer: TestSigner,
+  action: AuthAction,
+  payload: Record<string, unknown>,
+  options: { recipient: string; signedAt?: Date }
+): Promise<string> {
+  return signMessage(signer, actionMessage(action, payload), options);
+}
+
+// Signs an arbitrary message, e.g. one that doesn't match its request
+export async function signMessage(
+  signer: TestSigner,
+  message: string,
+  options: { recipient: string; signedAt?: Date }
+): Promise<string> {
+  return sign(message, {
+    signer: signer.keyPair.toString(),
+    accountId: signer.accountId,
+    recipient: options.recipient,
+    nonce: nonceAt(options.signedAt ?? new Date()),
+  });
+}
+
+// ============================================================================
+// CLI
+// ============================================================================
+
+// bun run sign-action <action> '<payload JSON>'
+// Signs with NEAR_TEST_ACCOUNT and NEAR_TEST_PRIVATE_KEY for DISCOURSE_RECIPIENT
+if (import.meta.main) {
+  const [action, payload = "{}"] = process.argv.slice(2);
+  if (!action || !process.env.NEAR_TEST_ACCOUNT) {
+    console.error(
+      "Usage: NEAR_TEST_ACCOUNT=... NEAR_TEST_PRIVATE_KEY=ed25519:... bun run sign-action <action> '<payload JSON>'"
+    );
+    process.exit(1);
+  }
+
+  const signer = createTestSigner(
+    process.env.NEAR_TEST_ACCOUNT,
+    process.env.NEAR_TEST_PRIVATE_KEY
+  );
+  console.log(
+    await signAction(signer, action as AuthAction, JSON.parse(payload), {
+      recipient: process.env.DISCOURSE_RECIPIENT || "social.near",
+    })
+  );
+}
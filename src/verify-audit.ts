@@ -0,0 +1,34 @@
+import { readFileSync } from "fs";
+import { verifyAuditEvidence } from "./audit";
+import type { AuditEntry } from "./storage";
+
+// Re-verifies the signatures in an audit export without contacting the
+// server or NEAR. Usage: bun run verify-audit <file.json>, where the file
+// is a /api/admin/audit response or a plain array of entries.
+const file = process.argv[2];
+if (!file) {
+  console.error("Usage: bun run verify-audit <audit-export.json>");
+  process.exit(1);
+}
+
+const data = JSON.parse(readFileSync(file, "utf8"));
+const entries: AuditEntry[] = Array.isArray(data) ? data : data.entries;
+
+let failed = 0;
+for (const entry of entries.filter((entry) => entry.evidence)) {
+  const result = verifyAuditEvidence(entry);
+  if (!result.valid) {
+    failed++;
+  }
+  console.log(
+    `${result.valid ? "✓" : "✗"} #${entry.id} ${new Date(
+      entry.timestamp
+    ).toISOString()} ${entry.action} ${entry.target}` +
+      (result.reason ? ` - ${result.reason}` : "")
+  );
+}
+
+console.log(
+  `\n${entries.length} entries, ${failed} with evidence that does not verify`
+);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,254 @@
+import { describe, expect, it } from "vitest";
+import type { Linkage } from "./storage";
+import {
+  userDestroyed,
+  userSuspended,
+  userUpdated,
+  WEBHOOK_SECRET,
+  type WebhookDelivery,
+} from "./testing/fixtures/webhooks";
+import {
+  applyLinkageUpdate,
+  linkageUpdateForEvent,
+  verifyWebhookSignature,
+  WebhookBodyError,
+  webhookUser,
+  type LinkageUpdate,
+} from "./webhooks";
+
+const deliveries = [userUpdated, userSuspended, userDestroyed];
+
+function userOf(delivery: WebhookDelivery) {
+  return JSON.parse(delivery.body).user;
+}
+
+function updateFor(delivery: WebhookDelivery) {
+  const update = linkageUpdateForEvent(delivery.event, userOf(delivery));
+  if (update.type !== "update") {
+    throw new Error(`Expected an update for ${delivery.event}`);
+  }
+  return update;
+}
+
+const linkage: Linkage = {
+  nearAccount: "alice.testnet",
+  discourseUsername: "alice",
+  discourseUserId: 1042,
+  userApiKey: "sealed-key",
+  clientId: "discourse-near-plugin",
+  scopes: ["read", "write"],
+  status: "active",
+  isPrimary: true,
+  verifiedAt: "2025-10-01T12:00:00.000Z",
+};
+
+describe("verifyWebhookSignature", () => {
+  it.each(deliveries.map((delivery) => [delivery.event, delivery]))(
+    "accepts the recorded %s delivery",
+    (_, delivery) => {
+      expect(
+        verifyWebhookSignature(
+          delivery.body,
+          delivery.signature,
+          WEBHOOK_SECRET
+        )
+      ).toBe(true);
+    }
+  );
+
+  it("accepts an upper-case digest", () => {
+    const [, digest] = userUpdated.signature.split("=");
+    expect(
+      verifyWebhookSignature(
+        userUpdated.body,
+        `sha256=${digest!.toUpperCase()}`,
+        WEBHOOK_SECRET
+      )
+    ).toBe(true);
+  });
+
+  it("rejects another secret", () => {
+    expect(
+      verifyWebhookSignature(
+        userUpdated.body,
+        userUpdated.signature,
+        "another-secret"
+      )
+    ).toBe(false);
+  });
+
+  it("rejects an altered body", () => {
+    const body = userUpdated.body.replace("alice_renamed", "mallory");
+    expect(
+      verifyWebhookSignature(body, userUpdated.signature, WEBHOOK_SECRET)
+    ).toBe(false);
+  });
+
+  it("rejects a re-serialized body", () => {
+    const body = JSON.stringify(JSON.parse(userUpdated.body), null, 2);
+    expect(
+      verifyWebhookSignature(body, userUpdated.signature, WEBHOOK_SECRET)
+    ).toBe(false);
+  });
+
+  it("rejects another delivery's signature", () => {
+    expect(
+      verifyWebhookSignature(
+        userUpdated.body,
+        userSuspended.signature,
+        WEBHOOK_SECRET
+      )
+    ).toBe(false);
+  });
+
+  it("rejects malformed signature headers", () => {
+    const [, digest] = userUpdated.signature.split("=");
+    for (const signature of [
+      "",
+      digest!,
+      `sha1=${digest}`,
+      "sha256=",
+      "sha256=not-hex",
+      `sha256=${digest!.slice(0, 32)}`,
+    ]) {
+      expect(
+        verifyWebhookSignature(userUpdated.body, signature, WEBHOOK_SECRET)
+      ).toBe(false);
+    }
+  });
+});
+
+describe("webhookUser", () => {
+  it("reads the user from the recorded deliveries", () => {
+    expect(webhookUser(userUpdated.body)).toEqual({
+      id: 1042,
+      username: "alice_renamed",
+      suspended_till: undefined,
+    });
+    expect(webhookUser(userSuspended.body)).toMatchObject({
+      id: 1042,
+      suspended_till: "3025-10-18T10:14:03.000Z",
+    });
+  });
+
+  it("returns undefined for events without a user", () => {
+    expect(webhookUser('{"post":{"id":1}}')).toBeUndefined();
+  });
+
+  it("rejects bodies that are not JSON objects", () => {
+    for (const body of ["", "{", "null", "42", '"user"', "[]"]) {
+      expect(() => webhookUser(body)).toThrow(WebhookBodyError);
+    }
+  });
+
+  it("rejects users without a numeric id and a username", () => {
+    for (const user of [
+      null,
+      42,
+      { id: "1042", username: "alice" },
+      { id: 1042 },
+      { id: 1042, username: "alice", suspended_till: 5 },
+    ]) {
+      expect(() => webhookUser(JSON.stringify({ user }))).toThrow(
+        WebhookBodyError
+      );
+    }
+  });
+});
+
+describe("linkageUpdateForEvent", () => {
+  it("refreshes the username on user_updated", () => {
+    expect(
+      linkageUpdateForEvent(userUpdated.event, userOf(userUpdated))
+    ).toEqual<LinkageUpdate>({
+      type: "update",
+      username: "alice_renamed",
+      status: "active",
+    });
+  });
+
+  it("suspends on user_suspended", () => {
+    expect(
+      linkageUpdateForEvent(userSuspended.event, userOf(userSuspended))
+    ).toEqual<LinkageUpdate>({
+      type: "update",
+      username: "alice",
+      status: "suspended",
+    });
+  });
+
+  it("keeps a suspension that a later user_updated still shows", () => {
+    expect(
+      linkageUpdateForEvent("user_updated", userOf(userSuspended))
+    ).toEqual<LinkageUpdate>({
+      type: "update",
+      username: "alice",
+      status: "suspended",
+    });
+  });
+
+  it("treats a suspension that has ended as active", () => {
+    const user = {
+      ...userOf(userSuspended),
+      suspended_till: "2020-01-01T00:00:00.000Z",
+    };
+    expect(linkageUpdateForEvent("user_updated", user)).toMatchObject({
+      status: "active",
+    });
+  });
+
+  it("removes the linkage on user_destroyed", () => {
+    expect(
+      linkageUpdateForEvent(userDestroyed.event, userOf(userDestroyed))
+    ).toEqual<LinkageUpdate>({
+      type: "remove",
+      reason: "Discourse user deleted",
+    });
+  });
+
+  it("ignores other events", () => {
+    expect(
+      linkageUpdateForEvent("user_logged_in", userOf(userUpdated))
+    ).toEqual<LinkageUpdate>({ type: "ignore" });
+  });
+});
+
+describe("applyLinkageUpdate", () => {
+  it("flags a rename until the account is re-linked", () => {
+    expect(applyLinkageUpdate(linkage, updateFor(userUpdated))).toEqual({
+      ...linkage,
+      discourseUsername: "alice_renamed",
+      status: "username_changed",
+    });
+  });
+
+  it("keeps the rename flag when the user is updated again", () => {
+    const renamed: Linkage = {
+      ...linkage,
+      discourseUsername: "alice_renamed",
+      status: "username_changed",
+    };
+    expect(applyLinkageUpdate(renamed, updateFor(userUpdated))).toBeNull();
+  });
+
+  it("suspends an active linkage", () => {
+    expect(applyLinkageUpdate(linkage, updateFor(userSuspended))).toEqual({
+      ...linkage,
+      status: "suspended",
+    });
+  });
+
+  it("returns null when nothing changed", () => {
+    const suspended: Linkage = { ...linkage, status: "suspended" };
+    expect(applyLinkageUpdate(suspended, updateFor(userSuspended))).toBeNull();
+  });
+
+  it("never reactivates a revoked linkage", () => {
+    const revoked: Linkage = { ...linkage, status: "revoked" };
+    expect(applyLinkageUpdate(revoked, updateFor(userSuspended))).toBeNull();
+    expect(applyLinkageUpdate(revoked, updateFor(userUpdated))).toEqual({
+      ...revoked,
+      discourseUsername: "alice_renamed",
+    });
+  });
+});
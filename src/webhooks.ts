@@ -0,0 +1,158 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Linkage, LinkageStatus } from "./storage";
+
+// ============================================================================
+// SIGNATURE
+// ============================================================================
+
+/**
+ * Checks Discourse's `X-Discourse-Event-Signature` header, which is
+ * `sha256=<hex HMAC-SHA256 of the raw request body>` keyed with the
+ * webhook's secret. The body must be the exact bytes Discourse sent.
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  signature: string,
+  secret: string
+): boolean {
+  const [algorithm, digest] = signature.split("=", 2);
+  if (algorithm !== "sha256" || !digest || !/^[0-9a-f]+$/i.test(digest)) {
+    return false;
+  }
+
+  const expected = createHmac("sha256", secret).update(rawBody).digest();
+  const received = Buffer.from(digest, "hex");
+  return (
+    received.length === expected.length && timingSafeEqual(received, expected)
+  );
+}
+
+// ============================================================================
+// USER EVENTS
+// ============================================================================
+
+// The subset of Discourse's webhook user serializer that linkages depend on
+export interface WebhookUser {
+  id: number;
+  username: string;
+  suspended_till?: string | null;
+}
+
+/** A webhook body that isn't the JSON object Discourse sends. */
+export class WebhookBodyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookBodyError";
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Reads the user out of a webhook body; undefined for events that aren't
+ * about a user. Throws WebhookBodyError for anything but a JSON object, or
+ * a user without a numeric id and a username.
+ */
+export function webhookUser(body: string): WebhookUser | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    throw new WebhookBodyError("Webhook body is not valid JSON");
+  }
+  if (!isObject(parsed)) {
+    throw new WebhookBodyError("Webhook body must be a JSON object");
+  }
+
+  const { user } = parsed;
+  if (user === undefined) {
+    return undefined;
+  }
+  if (
+    !isObject(user) ||
+    typeof user.id !== "number" ||
+    typeof user.username !== "string" ||
+    (user.suspended_till != null && typeof user.suspended_till !== "string")
+  ) {
+    throw new WebhookBodyError(
+      "Webhook user must have a numeric id and a username"
+    );
+  }
+  return {
+    id: user.id,
+    username: user.username,
+    suspended_till: user.suspended_till as string | null | undefined,
+  };
+}
+
+/** What a user event means for the linkages of that Discourse user. */
+export type LinkageUpdate =
+  | { type: "update"; username: string; status: LinkageStatus }
+  | { type: "remove"; reason: string }
+  | { type: "ignore" };
+
+function isSuspended(user: WebhookUser): boolean {
+  return (
+    !!user.suspended_till &&
+    new Date(user.suspended_till).getTime() > Date.now()
+  );
+}
+
+/**
+ * Maps a Discourse user event to a linkage update. Deleted and anonymized
+ * users have no usable identity or key left, so their linkages are removed;
+ * everything else keeps the linkage and refreshes its username and status.
+ */
+export function linkageUpdateForEvent(
+  event: string,
+  user: WebhookUser
+): LinkageUpdate {
+  switch (event) {
+    case "user_destroyed":
+      return { type: "remove", reason: "Discourse user deleted" };
+    case "user_anonymized":
+      return { type: "remove", reason: "Discourse user anonymized" };
+    case "user_suspended":
+      return { type: "update", username: user.username, status: "suspended" };
+    case "user_unsuspended":
+      return { type: "update", username: user.username, status: "active" };
+    case "user_updated":
+      return {
+        type: "update",
+        username: user.username,
+        status: isSuspended(user) ? "suspended" : "active",
+      };
+    default:
+      return { type: "ignore" };
+  }
+}
+
+/**
+ * Returns the updated linkage, or null when nothing changed. A revoked key
+ * stays revoked, and a rename stays flagged until the account is re-linked.
+ */
+export function applyLinkageUpdate(
+  linkage: Linkage,
+  update: Extract<LinkageUpdate, { type: "update" }>
+): Linkage | null {
+  let status = update.status;
+  if (linkage.status === "revoked") {
+    status = "revoked";
+  } else if (
+    status === "active" &&
+    (linkage.status === "username_changed" ||
+      linkage.discourseUsername !== update.username)
+  ) {
+    status = "username_changed";
+  }
+
+  if (
+    linkage.discourseUsername === update.username &&
+    linkage.status === status
+  ) {
+    return null;
+  }
+  return { ...linkage, discourseUsername: update.username, status };
+}
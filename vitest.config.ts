@@ -0,0 +1,10 @@
+import { configDefaults, defineConfig } from "vitest/config";
+
+// Unit tests; the end-to-end suite needs the plugin runtime and runs with
+// `test:integration` instead
+export default defineConfig({
+  test: {
+    include: ["src/**/*.test.ts"],
+    exclude: [...configDefaults.exclude, "src/**/*.e2e.test.ts"],
+  },
+});
@@ -0,0 +1,12 @@
+import { defineConfig } from "vitest/config";
+
+// The plugin end to end against MockDiscourse, one file at a time since
+// every test starts its own runtime and mock server
+export default defineConfig({
+  test: {
+    include: ["src/**/*.e2e.test.ts"],
+    fileParallelism: false,
+    testTimeout: 30000,
+    hookTimeout: 30000,
+  },
+});